@@ -0,0 +1,97 @@
+import { TruckIcon } from "@phosphor-icons/react";
+import { useMoney } from "@shopify/hydrogen";
+import type {
+  CountryCode,
+  MoneyV2,
+} from "@shopify/hydrogen/storefront-api-types";
+import { useThemeSettings } from "@weaverse/hydrogen";
+import clsx from "clsx";
+import type { CartApiQueryFragment } from "storefront-api.generated";
+import {
+  getFreeShippingProgress,
+  getFreeShippingThreshold,
+  parseFreeShippingThresholds,
+} from "~/utils/cart";
+
+export function CartFreeShipping({
+  cost,
+  countryCode,
+  className,
+}: {
+  cost: CartApiQueryFragment["cost"];
+  countryCode?: CountryCode | null;
+  className?: string;
+}) {
+  const { freeShippingEnabled, freeShippingThresholds } = useThemeSettings();
+  const subtotal = cost?.subtotalAmount as MoneyV2;
+
+  if (!freeShippingEnabled || !subtotal?.currencyCode) {
+    return null;
+  }
+
+  const threshold = getFreeShippingThreshold({
+    countryCode,
+    currencyCode: subtotal.currencyCode,
+    overrides: parseFreeShippingThresholds(freeShippingThresholds),
+  });
+  if (!threshold) {
+    return null;
+  }
+
+  return (
+    <FreeShippingProgress
+      subtotal={subtotal}
+      threshold={threshold}
+      className={className}
+    />
+  );
+}
+
+function FreeShippingProgress({
+  subtotal,
+  threshold,
+  className,
+}: {
+  subtotal: MoneyV2;
+  threshold: number;
+  className?: string;
+}) {
+  const { freeShippingProgressText, freeShippingSuccessText } =
+    useThemeSettings();
+  const { remaining, percentage, qualified } = getFreeShippingProgress(
+    subtotal,
+    threshold,
+  );
+  const remainingAmount = useMoney({
+    amount: remaining,
+    currencyCode: subtotal.currencyCode,
+  });
+  const text = qualified
+    ? freeShippingSuccessText
+    : freeShippingProgressText.replace(
+        "[amount]",
+        remainingAmount.withoutTrailingZeros,
+      );
+
+  return (
+    <div className={clsx("space-y-2", className)} data-test="free-shipping">
+      <div className="flex items-center gap-2 text-sm">
+        <TruckIcon className="w-5 h-5 shrink-0" aria-hidden="true" />
+        <span>{text}</span>
+      </div>
+      <div
+        role="progressbar"
+        aria-label="Free shipping progress"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percentage}
+        className="h-1.5 w-full bg-line-subtle overflow-hidden"
+      >
+        <div
+          className="h-full bg-body transition-[width] duration-300"
+          style={{ width: `${percentage}%` }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+import {
+  CheckIcon,
+  GiftIcon,
+  MinusIcon,
+  PlusIcon,
+} from "@phosphor-icons/react";
+import * as Collapsible from "@radix-ui/react-collapsible";
+import {
+  CartForm,
+  OptimisticInput,
+  useOptimisticData,
+} from "@shopify/hydrogen";
+import type { Attribute } from "@shopify/hydrogen/storefront-api-types";
+import clsx from "clsx";
+import { useState } from "react";
+import type { FetcherWithComponents } from "react-router";
+import { Button } from "~/components/button";
+import {
+  CART_CUSTOM_ACTIONS,
+  GIFT_MESSAGE_ATTRIBUTE,
+  GIFT_WRAP_ATTRIBUTE,
+} from "~/utils/cart";
+
+const GIFT_OPTIONS_OPTIMISTIC_ID = "cart-gift-options";
+
+type OptimisticGiftOptions = {
+  giftWrap?: boolean;
+};
+
+/**
+ * Gift message, gift wrap and order instructions editor.
+ * The gift message and gift wrap are stored as cart attributes,
+ * the order instructions as the cart note.
+ */
+export function CartGiftOptions({
+  note,
+  attributes,
+}: {
+  note?: string | null;
+  attributes?: Pick<Attribute, "key" | "value">[];
+}) {
+  const giftMessage =
+    attributes?.find(({ key }) => key === GIFT_MESSAGE_ATTRIBUTE)?.value || "";
+  const hasGiftWrap = attributes?.some(
+    ({ key, value }) => key === GIFT_WRAP_ATTRIBUTE && value === "Yes",
+  );
+  const [open, setOpen] = useState(Boolean(note || giftMessage || hasGiftWrap));
+
+  return (
+    <Collapsible.Root open={open} onOpenChange={setOpen}>
+      <Collapsible.Trigger
+        className={clsx([
+          "flex items-center justify-between w-full font-medium",
+          "data-[state=open]:[&>.minus]:inline-block",
+          "data-[state=open]:[&>.plus]:hidden",
+        ])}
+      >
+        <span className="flex items-center gap-2">
+          <GiftIcon className="w-4 h-4" aria-hidden="true" />
+          Gift message & instructions
+        </span>
+        <MinusIcon className="w-4 h-4 minus hidden" />
+        <PlusIcon className="w-4 h-4 plus" />
+      </Collapsible.Trigger>
+      <Collapsible.Content className="space-y-4 pt-4">
+        <GiftWrapToggle checked={Boolean(hasGiftWrap)} />
+        <GiftMessageForm message={giftMessage} />
+        <OrderNoteForm note={note || ""} />
+      </Collapsible.Content>
+    </Collapsible.Root>
+  );
+}
+
+function GiftWrapToggle({ checked }: { checked: boolean }) {
+  const optimisticData = useOptimisticData<OptimisticGiftOptions>(
+    GIFT_OPTIONS_OPTIMISTIC_ID,
+  );
+  const isChecked = optimisticData?.giftWrap ?? checked;
+
+  return (
+    <CartForm
+      route="/cart"
+      action={CART_CUSTOM_ACTIONS.GiftWrapUpdate}
+      inputs={{ giftWrap: !isChecked }}
+    >
+      <button
+        type="submit"
+        aria-pressed={isChecked}
+        className="flex items-center gap-2"
+      >
+        <span className="flex items-center justify-center w-5 h-5 shrink-0 border border-line">
+          {isChecked && <CheckIcon className="w-4 h-4" weight="regular" />}
+        </span>
+        <span>Add gift wrap</span>
+      </button>
+      <OptimisticInput
+        id={GIFT_OPTIONS_OPTIMISTIC_ID}
+        data={{ giftWrap: !isChecked }}
+      />
+    </CartForm>
+  );
+}
+
+function GiftMessageForm({ message }: { message: string }) {
+  const [value, setValue] = useState(message);
+
+  return (
+    <CartForm
+      route="/cart"
+      action={CartForm.ACTIONS.AttributesUpdateInput}
+      inputs={{
+        attributes: [{ key: GIFT_MESSAGE_ATTRIBUTE, value: value.trim() }],
+      }}
+    >
+      {(fetcher: FetcherWithComponents<any>) => (
+        <TextareaField
+          id="cart-gift-message"
+          label="Gift message"
+          placeholder="Write a message to include with your gift"
+          maxLength={250}
+          value={value}
+          onChange={setValue}
+          isDirty={value.trim() !== message}
+          fetcher={fetcher}
+        />
+      )}
+    </CartForm>
+  );
+}
+
+function OrderNoteForm({ note }: { note: string }) {
+  const [value, setValue] = useState(note);
+
+  return (
+    <CartForm
+      route="/cart"
+      action={CartForm.ACTIONS.NoteUpdate}
+      inputs={{ note: value.trim() }}
+    >
+      {(fetcher: FetcherWithComponents<any>) => (
+        <TextareaField
+          id="cart-note"
+          label="Delivery instructions"
+          placeholder="E.g. leave the parcel with the concierge"
+          maxLength={500}
+          value={value}
+          onChange={setValue}
+          isDirty={value.trim() !== note}
+          fetcher={fetcher}
+        />
+      )}
+    </CartForm>
+  );
+}
+
+function TextareaField({
+  id,
+  label,
+  placeholder,
+  maxLength,
+  value,
+  onChange,
+  isDirty,
+  fetcher,
+}: {
+  id: string;
+  label: string;
+  placeholder: string;
+  maxLength: number;
+  value: string;
+  onChange: (value: string) => void;
+  isDirty: boolean;
+  fetcher: FetcherWithComponents<any>;
+}) {
+  const isSaving = fetcher.state !== "idle";
+
+  return (
+    <div className="space-y-1.5">
+      <label htmlFor={id} className="text-sm">
+        {label}
+      </label>
+      <textarea
+        id={id}
+        rows={2}
+        maxLength={maxLength}
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => onChange(e.currentTarget.value)}
+        className="w-full p-3 border border-line rounded-none outline-hidden focus-visible:border-line resize-none"
+      />
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-sm text-body-subtle">
+          {value.length}/{maxLength}
+        </span>
+        <Button
+          type="submit"
+          variant="outline"
+          className="leading-tight! py-2"
+          loading={isSaving}
+          disabled={!isDirty || isSaving}
+        >
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+}
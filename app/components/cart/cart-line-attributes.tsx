@@ -0,0 +1,194 @@
+import { PlusIcon, XIcon } from "@phosphor-icons/react";
+import {
+  CartForm,
+  OptimisticInput,
+  useOptimisticData,
+} from "@shopify/hydrogen";
+import type { AttributeInput } from "@shopify/hydrogen/storefront-api-types";
+import { useEffect, useState } from "react";
+import type { FetcherWithComponents } from "react-router";
+import { Button } from "~/components/button";
+import { isPrivateAttribute, mergeAttributes } from "~/utils/cart";
+import type { CartLine } from "./cart";
+
+type OptimisticData = {
+  attributes?: AttributeInput[];
+};
+
+/**
+ * Display and edit the custom attributes of a cart line (e.g. engraving text).
+ * Private attributes (prefixed with `_`) are never shown but are always sent
+ * back with the update so they are not lost.
+ */
+export function CartLineAttributes({ line }: { line: CartLine }) {
+  const optimisticData = useOptimisticData<OptimisticData>(line.id);
+  const [editing, setEditing] = useState(false);
+
+  const visibleAttributes: AttributeInput[] =
+    optimisticData?.attributes ??
+    mergeAttributes(line.attributes).filter((a) => !isPrivateAttribute(a));
+
+  if (editing) {
+    return (
+      <CartLineAttributesForm
+        line={line}
+        attributes={visibleAttributes}
+        onDone={() => setEditing(false)}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-1 text-sm">
+      {visibleAttributes.length > 0 && (
+        <dl className="text-body-subtle space-y-0.5">
+          {visibleAttributes.map(({ key, value }) => (
+            <div key={key} className="flex gap-1">
+              <dt>{key}:</dt>
+              <dd className="break-all">{value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+      {!line.isOptimistic && (
+        <button
+          type="button"
+          className="underline underline-offset-4 text-body-subtle"
+          onClick={() => setEditing(true)}
+        >
+          {visibleAttributes.length ? "Edit details" : "Add personalization"}
+        </button>
+      )}
+    </div>
+  );
+}
+
+function CartLineAttributesForm({
+  line,
+  attributes,
+  onDone,
+}: {
+  line: CartLine;
+  attributes: AttributeInput[];
+  onDone: () => void;
+}) {
+  const [rows, setRows] = useState<AttributeInput[]>(
+    attributes.length ? attributes : [{ key: "", value: "" }],
+  );
+  const privateAttributes = mergeAttributes(line.attributes).filter(
+    isPrivateAttribute,
+  );
+  const updatedAttributes = rows
+    .map(({ key, value }) => ({ key: key.trim(), value: value.trim() }))
+    .filter(({ key, value }) => key && value && !key.startsWith("_"));
+
+  function updateRow(index: number, row: Partial<AttributeInput>) {
+    setRows(rows.map((r, i) => (i === index ? { ...r, ...row } : r)));
+  }
+
+  return (
+    <CartForm
+      route="/cart"
+      action={CartForm.ACTIONS.LinesUpdate}
+      inputs={{
+        lines: [
+          {
+            id: line.id,
+            // Always send the quantity, the optimistic cart reads it
+            quantity: line.quantity,
+            attributes: [...privateAttributes, ...updatedAttributes],
+          },
+        ],
+      }}
+    >
+      {(fetcher: FetcherWithComponents<any>) => (
+        <div className="space-y-2 text-sm">
+          {rows.map((row, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <input
+                type="text"
+                aria-label="Detail name"
+                placeholder="Name (e.g. Engraving)"
+                maxLength={50}
+                value={row.key}
+                onChange={(e) =>
+                  updateRow(index, { key: e.currentTarget.value })
+                }
+                className="w-2/5 p-2 border border-line rounded-none leading-tight!"
+              />
+              <input
+                type="text"
+                aria-label="Detail value"
+                placeholder="Value"
+                maxLength={250}
+                value={row.value}
+                onChange={(e) =>
+                  updateRow(index, { value: e.currentTarget.value })
+                }
+                className="grow min-w-0 p-2 border border-line rounded-none leading-tight!"
+              />
+              <button
+                type="button"
+                aria-label="Remove detail"
+                className="shrink-0"
+                onClick={() => setRows(rows.filter((_, i) => i !== index))}
+              >
+                <XIcon className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <div className="flex items-center justify-between gap-3">
+            <button
+              type="button"
+              className="flex items-center gap-1 text-body-subtle"
+              onClick={() => setRows([...rows, { key: "", value: "" }])}
+            >
+              <PlusIcon className="w-3.5 h-3.5" />
+              <span>Add detail</span>
+            </button>
+            <div className="flex items-center gap-3">
+              <button
+                type="button"
+                className="underline underline-offset-4"
+                onClick={onDone}
+              >
+                Cancel
+              </button>
+              <Button
+                type="submit"
+                variant="outline"
+                className="leading-tight! py-2"
+              >
+                Save
+              </Button>
+            </div>
+          </div>
+          <OptimisticInput
+            id={line.id}
+            data={{ attributes: updatedAttributes }}
+          />
+          <CloseOnSubmit fetcher={fetcher} onClose={onDone} />
+        </div>
+      )}
+    </CartForm>
+  );
+}
+
+/**
+ * Close the editor once the update is sent, the pending line attributes are
+ * then displayed optimistically until the cart is refreshed.
+ */
+function CloseOnSubmit({
+  fetcher,
+  onClose,
+}: {
+  fetcher: FetcherWithComponents<any>;
+  onClose: () => void;
+}) {
+  useEffect(() => {
+    if (fetcher.state !== "idle") {
+      onClose();
+    }
+  }, [fetcher.state, onClose]);
+  return null;
+}
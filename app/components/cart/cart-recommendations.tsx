@@ -0,0 +1,126 @@
+import { Money } from "@shopify/hydrogen";
+import clsx from "clsx";
+import { useEffect } from "react";
+import { useFetcher } from "react-router";
+import type { ProductCardFragment } from "storefront-api.generated";
+import { Image } from "~/components/image";
+import { Link } from "~/components/link";
+import { AddToCartButton } from "~/components/product/add-to-cart-button";
+import { usePrefixPathWithLocale } from "~/hooks/use-prefix-path-with-locale";
+import { RevealUnderline } from "~/reveal-underline";
+import { toggleCartDrawer } from "../layout/cart-drawer";
+import type { CartLine } from "./cart";
+
+/**
+ * Complementary products for the products in the cart, with one-click add.
+ * Reloaded whenever the products in the cart change.
+ * @param lines the cart lines
+ * @param count number of products to display
+ */
+export function CartRecommendations({
+  lines,
+  count = 4,
+  className,
+}: {
+  lines: CartLine[];
+  count?: number;
+  className?: string;
+}) {
+  const { load, data } = useFetcher<{ products: ProductCardFragment[] }>();
+  const apiPath = usePrefixPathWithLocale(
+    `/api/cart-recommendations?count=${count}`,
+  );
+  // Only the products matter, not the quantities or the attributes
+  const productIds = [
+    ...new Set(
+      lines
+        .filter((line) => !line.isOptimistic)
+        .map(({ merchandise }) => merchandise.product.id),
+    ),
+  ]
+    .sort()
+    .join(",");
+
+  useEffect(() => {
+    if (productIds) {
+      load(apiPath);
+    }
+  }, [load, apiPath, productIds]);
+
+  if (!data?.products?.length) {
+    return null;
+  }
+
+  return (
+    <div
+      className={clsx("space-y-4", className)}
+      data-test="cart-recommendations"
+    >
+      <h6>You may also like</h6>
+      <ul className="grid gap-5">
+        {data.products.map((product) => (
+          <CartRecommendation key={product.id} product={product} />
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function CartRecommendation({ product }: { product: ProductCardFragment }) {
+  const variant = product.selectedOrFirstAvailableVariant;
+  if (!variant?.availableForSale) {
+    return null;
+  }
+  const image = variant.image || product.images.nodes[0];
+
+  return (
+    <li className="flex gap-4 text-sm">
+      <div className="shrink-0">
+        {image && (
+          <Image
+            width={150}
+            height={150}
+            data={image}
+            className="w-16 h-auto"
+            alt={image.altText || product.title}
+          />
+        )}
+      </div>
+      <div className="flex flex-col gap-2 grow">
+        <div className="flex justify-between gap-4">
+          <div className="space-y-0.5">
+            <Link
+              to={`/products/${product.handle}`}
+              onClick={() => toggleCartDrawer(false)}
+            >
+              <RevealUnderline>{product.title}</RevealUnderline>
+            </Link>
+            {variant.title !== "Default Title" && (
+              <div className="text-body-subtle">{variant.title}</div>
+            )}
+          </div>
+          <Money
+            withoutTrailingZeros
+            data={variant.price}
+            className="shrink-0"
+          />
+        </div>
+        <AddToCartButton
+          lines={[
+            {
+              merchandiseId: variant.id,
+              quantity: 1,
+              selectedVariant: variant,
+            },
+          ]}
+          width="auto"
+          variant="outline"
+          className="w-fit leading-tight! py-2"
+          data-test="cart-recommendation-add"
+        >
+          Add to cart
+        </AddToCartButton>
+      </div>
+    </li>
+  );
+}
@@ -0,0 +1,133 @@
+import {
+  CartForm,
+  Money,
+  OptimisticInput,
+  useOptimisticData,
+} from "@shopify/hydrogen";
+import clsx from "clsx";
+import { useEffect } from "react";
+import { useFetcher } from "react-router";
+import { Image } from "~/components/image";
+import { Link } from "~/components/link";
+import { usePrefixPathWithLocale } from "~/hooks/use-prefix-path-with-locale";
+import { RevealUnderline } from "~/reveal-underline";
+import type { SavedForLaterData } from "~/routes/($locale).api.saved-for-later";
+import { CART_CUSTOM_ACTIONS } from "~/utils/cart";
+import { toggleCartDrawer } from "../layout/cart-drawer";
+
+type SavedForLaterItem = SavedForLaterData["items"][0];
+
+type OptimisticData = {
+  action?: string;
+};
+
+/**
+ * List the items the shopper saved for later from the cart.
+ * The list is loaded from the saved-for-later API route and revalidated
+ * after each cart action (saving a line or moving an item back to the cart).
+ */
+export function CartSavedForLater({
+  layout = "drawer",
+  className,
+}: {
+  layout?: "drawer" | "page";
+  className?: string;
+}) {
+  const { load, data } = useFetcher<SavedForLaterData>();
+  const apiPath = usePrefixPathWithLocale("/api/saved-for-later");
+
+  useEffect(() => {
+    load(apiPath);
+  }, [load, apiPath]);
+
+  if (!data?.items?.length) {
+    return null;
+  }
+
+  return (
+    <div className={clsx("space-y-4", className)} data-test="saved-for-later">
+      <h6>Saved for later ({data.items.length})</h6>
+      <ul className={clsx("grid", layout === "page" ? "gap-6" : "gap-5")}>
+        {data.items.map((item) => (
+          <SavedForLaterLine key={item.merchandiseId} item={item} />
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function SavedForLaterLine({ item }: { item: SavedForLaterItem }) {
+  const { merchandiseId, variant } = item;
+  const optimisticId = `saved-for-later-${merchandiseId}`;
+  const optimisticData = useOptimisticData<OptimisticData>(optimisticId);
+  const removeFetcher = useFetcher();
+  const apiPath = usePrefixPathWithLocale("/api/saved-for-later");
+
+  if (!variant) return null;
+
+  const { image, product, title, price, availableForSale } = variant;
+
+  return (
+    <li
+      className="flex gap-4"
+      style={{
+        // Hide the item while it's being moved or removed, keep the forms in the DOM
+        display: optimisticData?.action === "remove" ? "none" : "flex",
+      }}
+    >
+      <div className="shrink-0">
+        {image && (
+          <Image
+            width={150}
+            height={150}
+            data={image}
+            className="w-16 h-auto"
+            alt={image.altText || title}
+          />
+        )}
+      </div>
+      <div className="flex flex-col gap-2 grow text-sm">
+        <div className="flex justify-between gap-4">
+          <div className="space-y-0.5">
+            <Link
+              to={`/products/${product.handle}`}
+              onClick={() => toggleCartDrawer(false)}
+            >
+              <RevealUnderline>{product.title}</RevealUnderline>
+            </Link>
+            {title !== "Default Title" && (
+              <div className="text-body-subtle">{title}</div>
+            )}
+          </div>
+          <Money withoutTrailingZeros data={price} className="shrink-0" />
+        </div>
+        <div className="flex items-center gap-4">
+          {availableForSale ? (
+            <CartForm
+              route="/cart"
+              action={CART_CUSTOM_ACTIONS.MoveToCart}
+              inputs={{ merchandiseId }}
+            >
+              <button type="submit" className="underline underline-offset-4">
+                Move to cart
+              </button>
+              <OptimisticInput id={optimisticId} data={{ action: "remove" }} />
+            </CartForm>
+          ) : (
+            <span className="text-body-subtle">Sold out</span>
+          )}
+          <removeFetcher.Form method="post" action={apiPath}>
+            <input type="hidden" name="merchandiseId" value={merchandiseId} />
+            <button
+              type="submit"
+              className="underline underline-offset-4 text-body-subtle"
+            >
+              Remove
+            </button>
+            <OptimisticInput id={optimisticId} data={{ action: "remove" }} />
+          </removeFetcher.Form>
+        </div>
+      </div>
+    </li>
+  );
+}
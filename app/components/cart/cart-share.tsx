@@ -0,0 +1,81 @@
+import { CheckIcon, ShareNetworkIcon } from "@phosphor-icons/react";
+import { useEffect, useState } from "react";
+import { useRouteLoaderData } from "react-router";
+import type { RootLoader } from "~/root";
+import { getCartPermalink } from "~/utils/cart";
+import { DEFAULT_LOCALE } from "~/utils/const";
+import type { CartLine } from "./cart";
+
+/**
+ * Share a permalink recreating the cart, with its line attributes and
+ * discount codes. The link lands on the cart page once restored.
+ * Uses the native share sheet when available, otherwise copies the link.
+ */
+export function CartShare({
+  lines,
+  discountCodes,
+}: {
+  lines: CartLine[];
+  discountCodes: { code: string }[];
+}) {
+  const rootData = useRouteLoaderData<RootLoader>("root");
+  const { pathPrefix } = rootData?.selectedLocale ?? DEFAULT_LOCALE;
+  const [status, setStatus] = useState<"idle" | "copied" | "error">("idle");
+
+  useEffect(() => {
+    if (status === "idle") return;
+    const timeout = setTimeout(() => setStatus("idle"), 3000);
+    return () => clearTimeout(timeout);
+  }, [status]);
+
+  async function shareCart() {
+    const path = getCartPermalink({
+      lines: lines
+        .filter((line) => !line.isOptimistic)
+        .map(({ merchandise, quantity, attributes }) => ({
+          merchandiseId: merchandise.id,
+          quantity,
+          attributes,
+        })),
+      discountCodes: discountCodes.map(({ code }) => code),
+      pathPrefix,
+    });
+    const url = new URL(path, window.location.origin).toString();
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: "My cart", url });
+      } else {
+        await navigator.clipboard.writeText(url);
+        setStatus("copied");
+      }
+    } catch (error) {
+      // The share sheet was dismissed
+      if ((error as Error)?.name !== "AbortError") {
+        setStatus("error");
+      }
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-3 text-sm">
+      <button
+        type="button"
+        className="flex items-center gap-2 underline underline-offset-4"
+        onClick={shareCart}
+        data-test="share-cart"
+      >
+        <ShareNetworkIcon aria-hidden="true" className="w-4 h-4" />
+        Share cart
+      </button>
+      <output className="text-body-subtle">
+        {status === "copied" && (
+          <span className="flex items-center gap-1">
+            <CheckIcon aria-hidden="true" className="w-4 h-4" />
+            Link copied
+          </span>
+        )}
+        {status === "error" && "Unable to share the cart, please try again."}
+      </output>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { TrashIcon } from "@phosphor-icons/react";
+import { TagIcon, TrashIcon, XIcon } from "@phosphor-icons/react";
 import {
   CartForm,
   Money,
@@ -13,6 +13,7 @@ import type {
 } from "@shopify/hydrogen/storefront-api-types";
 import clsx from "clsx";
 import { useRef } from "react";
+import { useFetcher, useFetchers } from "react-router";
 import useScroll from "react-use/esm/useScroll";
 import type { CartApiQueryFragment } from "storefront-api.generated";
 import { Button } from "~/components/button";
@@ -20,11 +21,30 @@ import { Image } from "~/components/image";
 import { Link } from "~/components/link";
 import { ScrollArea } from "~/components/scroll-area";
 import { RevealUnderline } from "~/reveal-underline";
+import {
+  CART_CUSTOM_ACTIONS,
+  DISCOUNT_CODE_NOT_APPLICABLE,
+  DISCOUNT_CODES_FETCHER_KEY,
+  type DiscountCodeResult,
+  getDiscountCodesFetcherKey,
+  getMaxLineQuantity,
+  groupLinesByBundle,
+  LOW_STOCK_THRESHOLD,
+  PREORDER_ATTRIBUTE,
+} from "~/utils/cart";
 import { getImageAspectRatio } from "~/utils/image";
+import { getPreorderText } from "~/utils/product";
 import { toggleCartDrawer } from "../layout/cart-drawer";
 import { CartBestSellers } from "./cart-best-sellers";
-
-type CartLine = OptimisticCart<CartApiQueryFragment>["lines"]["nodes"][0];
+import { CartFreeShipping } from "./cart-free-shipping";
+import { CartGiftOptions } from "./cart-gift-options";
+import { CartLineAttributes } from "./cart-line-attributes";
+import { CartRecommendations } from "./cart-recommendations";
+import { CartSavedForLater } from "./cart-saved-for-later";
+import { CartShare } from "./cart-share";
+
+export type CartLine =
+  OptimisticCart<CartApiQueryFragment>["lines"]["nodes"][0];
 type Layouts = "page" | "drawer";
 
 export function Cart({
@@ -67,47 +87,67 @@ function CartDetails({
     >
       <CartLines lines={cart?.lines?.nodes} layout={layout} />
       <CartSummary cost={cart.cost} layout={layout}>
+        <CartFreeShipping
+          cost={cart.cost}
+          countryCode={cart.buyerIdentity?.countryCode}
+        />
+        <CartGiftOptions note={cart.note} attributes={cart.attributes} />
         <CartDiscounts discountCodes={cart.discountCodes} />
         <CartCheckoutActions checkoutUrl={cart.checkoutUrl} layout={layout} />
+        <CartShare
+          lines={cart?.lines?.nodes}
+          discountCodes={cart.discountCodes}
+        />
       </CartSummary>
     </div>
   );
 }
 
 /**
- * Temporary discount UI
- * @param discountCodes the current discount codes applied to the cart
- * @todo rework when a design is ready
+ * Discount codes on the cart, several codes can be stacked.
+ * Each code shows whether it applies to the cart, the reason when it doesn't,
+ * and can be removed on its own.
+ * @param discountCodes the current discount codes on the cart
  */
 function CartDiscounts({
   discountCodes,
 }: {
   discountCodes: CartType["discountCodes"];
 }) {
-  const codes: string[] =
-    discountCodes
-      ?.filter((discount) => discount.applicable)
-      ?.map(({ code }) => code) || [];
+  const fetchers = useFetchers().filter(({ key }) =>
+    key.startsWith(DISCOUNT_CODES_FETCHER_KEY),
+  );
+  // Every form submits the whole list of codes, so only one update at a time
+  const isUpdating = fetchers.some(({ state }) => state !== "idle");
+  const results: DiscountCodeResult[] = fetchers.flatMap(
+    ({ data }) => data?.discountCodes || [],
+  );
+  const codes = discountCodes?.map(({ code }) => code) || [];
 
   return (
-    <>
-      {/* Have existing discount, display it with a remove option */}
-      <dl className={codes && codes.length !== 0 ? "grid" : "hidden"}>
-        <div className="flex items-center justify-between font-medium">
-          <dt>Discount(s)</dt>
-          <div className="flex items-center justify-between">
-            <UpdateDiscountForm>
-              <button type="button">
-                <TrashIcon
-                  aria-hidden="true"
-                  className="h-[18px] w-[18px] mr-1"
+    <div className="grid gap-3">
+      {discountCodes?.length > 0 && (
+        <div className="grid gap-2">
+          <span className="font-medium">Discount(s)</span>
+          <ul className="grid gap-2">
+            {discountCodes.map(({ code, applicable }) => {
+              const result = results.find(
+                (r) => r.code.toLowerCase() === code.toLowerCase(),
+              );
+              return (
+                <CartDiscountCode
+                  key={code}
+                  code={code}
+                  applicable={applicable}
+                  reason={result?.reason}
+                  otherCodes={codes.filter((c) => c !== code)}
+                  disabled={isUpdating}
                 />
-              </button>
-            </UpdateDiscountForm>
-            <dd>{codes?.join(", ")}</dd>
-          </div>
+              );
+            })}
+          </ul>
         </div>
-      </dl>
+      )}
 
       {/* Show an input to apply a discount */}
       <UpdateDiscountForm discountCodes={codes}>
@@ -117,20 +157,95 @@ function CartDiscounts({
             type="text"
             name="discountCode"
             placeholder="Discount code"
+            aria-label="Discount code"
           />
-          <Button variant="outline" className="leading-tight!">
+          <Button
+            variant="outline"
+            className="leading-tight!"
+            type="submit"
+            disabled={isUpdating}
+            loading={fetchers.some(
+              ({ key, state }) =>
+                key === getDiscountCodesFetcherKey() && state !== "idle",
+            )}
+          >
             Apply
           </Button>
         </div>
       </UpdateDiscountForm>
-    </>
+    </div>
+  );
+}
+
+function CartDiscountCode({
+  code,
+  applicable,
+  reason,
+  otherCodes,
+  disabled,
+}: {
+  code: string;
+  applicable: boolean;
+  reason?: string;
+  otherCodes: string[];
+  disabled: boolean;
+}) {
+  const optimisticId = `discount-code-${code}`;
+  const optimisticData = useOptimisticData<OptimisticData>(optimisticId);
+
+  return (
+    <li
+      className="flex items-start justify-between gap-3 text-sm"
+      data-test="discount-code"
+      style={{
+        // Hide the code if it's being removed, but keep the form in the DOM
+        display: optimisticData?.action === "remove" ? "none" : "flex",
+      }}
+    >
+      <div className="space-y-0.5">
+        <div className="flex items-center gap-2">
+          <TagIcon aria-hidden="true" className="w-4 h-4 shrink-0" />
+          <span className="font-medium uppercase">{code}</span>
+          <span
+            className={clsx(
+              "px-1.5 py-0.5 text-xs",
+              applicable ? "bg-line-subtle" : "bg-red-50 text-red-700",
+            )}
+            data-test="discount-code-status"
+          >
+            {applicable ? "Applied" : "Not applicable"}
+          </span>
+        </div>
+        {!applicable && (
+          <p className="text-body-subtle" data-test="discount-code-reason">
+            {reason || DISCOUNT_CODE_NOT_APPLICABLE}
+          </p>
+        )}
+      </div>
+      <UpdateDiscountForm
+        fetcherKey={getDiscountCodesFetcherKey(code)}
+        discountCodes={otherCodes}
+      >
+        <button
+          type="submit"
+          disabled={disabled}
+          className="flex items-center justify-center w-6 h-6"
+          aria-label={`Remove discount code ${code}`}
+        >
+          <XIcon aria-hidden="true" className="w-4 h-4" />
+        </button>
+        <OptimisticInput id={optimisticId} data={{ action: "remove" }} />
+      </UpdateDiscountForm>
+    </li>
   );
 }
 
 function UpdateDiscountForm({
+  fetcherKey = getDiscountCodesFetcherKey(),
   discountCodes,
   children,
 }: {
+  fetcherKey?: string;
   discountCodes?: string[];
   children: React.ReactNode;
 }) {
@@ -138,6 +253,7 @@ function UpdateDiscountForm({
     <CartForm
       route="/cart"
       action={CartForm.ACTIONS.DiscountCodesUpdate}
+      fetcherKey={fetcherKey}
       inputs={{
         discountCodes: discountCodes || [],
       }}
@@ -169,7 +285,7 @@ function CartLines({
       ])}
     >
       <ScrollArea
-        className={clsx(layout === "drawer" && "max-h-[calc(100vh-312px)]")}
+        className={clsx(layout === "drawer" && "max-h-[calc(100vh-360px)]")}
         size="sm"
       >
         <ul
@@ -179,10 +295,28 @@ function CartLines({
             layout === "drawer" && "gap-5",
           )}
         >
-          {currentLines.map((line) => (
-            <CartLineItem key={line.id} line={line} layout={layout} />
-          ))}
+          {groupLinesByBundle(currentLines).map(
+            ({ bundleId, bundleName, lines }) =>
+              bundleId ? (
+                <CartBundle
+                  key={bundleId}
+                  name={bundleName}
+                  lines={lines}
+                  layout={layout}
+                />
+              ) : (
+                <CartLineItem
+                  key={lines[0].id}
+                  line={lines[0]}
+                  layout={layout}
+                />
+              ),
+          )}
         </ul>
+        <CartSavedForLater layout={layout} className="px-4 pt-8" />
+        {layout === "drawer" && (
+          <CartRecommendations lines={currentLines} className="px-4 pt-8" />
+        )}
       </ScrollArea>
     </div>
   );
@@ -254,7 +388,146 @@ type OptimisticData = {
   quantity?: number;
 };
 
-function CartLineItem({ line, layout }: { line: CartLine; layout: Layouts }) {
+/**
+ * Lines added together from a bundle builder, their quantity is updated and
+ * they are removed as a unit
+ */
+function CartBundle({
+  name,
+  lines,
+  layout,
+}: {
+  name?: string;
+  lines: CartLine[];
+  layout: Layouts;
+}) {
+  const lineIds = lines.map(({ id }) => id);
+  const optimisticData = useOptimisticData<OptimisticData>(lineIds[0]);
+
+  return (
+    <li
+      className="space-y-4 p-3 border border-line-subtle"
+      data-test="cart-bundle"
+      style={{
+        display: optimisticData?.action === "remove" ? "none" : "block",
+      }}
+    >
+      <div className="flex items-center justify-between gap-4">
+        <span className="font-medium">
+          {name || "Bundle"} ({lines.length} items)
+        </span>
+        {!lines.some((line) => line.isOptimistic) && (
+          <CartForm
+            route="/cart"
+            action={CartForm.ACTIONS.LinesRemove}
+            inputs={{ lineIds }}
+          >
+            <button
+              type="submit"
+              className="text-sm underline underline-offset-4"
+            >
+              Remove bundle
+            </button>
+            {lineIds.map((id) => (
+              <OptimisticInput key={id} id={id} data={{ action: "remove" }} />
+            ))}
+          </CartForm>
+        )}
+      </div>
+      {lines.some((line) => !line.merchandise.availableForSale) && (
+        <p className="text-sm text-red-700" data-test="cart-bundle-unavailable">
+          Some items of this bundle are no longer available, remove the bundle
+          to check out.
+        </p>
+      )}
+      <ul className="grid gap-5">
+        {lines.map((line) => (
+          <CartLineItem key={line.id} line={line} layout={layout} inBundle />
+        ))}
+      </ul>
+      <CartBundleQuantityAdjust lines={lines} />
+      <CartLineErrors lineId={lineIds[0]} />
+    </li>
+  );
+}
+
+/**
+ * Every line of a bundle keeps the same quantity, the bundle quantity
+ */
+function CartBundleQuantityAdjust({ lines }: { lines: CartLine[] }) {
+  const optimisticId = lines[0].id;
+  const optimisticData = useOptimisticData<OptimisticData>(optimisticId);
+
+  if (lines.some((line) => line.isOptimistic)) {
+    return null;
+  }
+
+  const quantity =
+    optimisticData?.quantity || Math.min(...lines.map((line) => line.quantity));
+  const maxQuantity = Math.min(
+    ...lines.map((line) => getMaxLineQuantity(line.merchandise)),
+  );
+  const prevQuantity = Math.max(0, quantity - 1);
+  const nextQuantity = quantity + 1;
+
+  return (
+    <div className="flex items-center gap-3">
+      <span className="text-sm">Bundle quantity</span>
+      <div className="flex items-center border border-line-subtle">
+        <UpdateCartButton
+          lines={lines.map(({ id }) => ({ id, quantity: prevQuantity }))}
+          fetcherKey={getLineFetcherKey(optimisticId)}
+        >
+          <button
+            type="submit"
+            aria-label="Decrease bundle quantity"
+            className="w-9 h-9 transition disabled:text-body-subtle disabled:cursor-not-allowed"
+            disabled={quantity <= 1}
+          >
+            <span>&#8722;</span>
+            <OptimisticInput
+              id={optimisticId}
+              data={{ quantity: prevQuantity }}
+            />
+          </button>
+        </UpdateCartButton>
+        <div className="px-2 text-center" data-test="bundle-quantity">
+          {quantity}
+        </div>
+        <UpdateCartButton
+          lines={lines.map(({ id }) => ({ id, quantity: nextQuantity }))}
+          fetcherKey={getLineFetcherKey(optimisticId)}
+        >
+          <button
+            type="submit"
+            aria-label="Increase bundle quantity"
+            className="w-9 h-9 transition disabled:text-body-subtle disabled:cursor-not-allowed"
+            disabled={
+              lines.some((line) => !line.merchandise.availableForSale) ||
+              quantity >= maxQuantity
+            }
+          >
+            <span>&#43;</span>
+            <OptimisticInput
+              id={optimisticId}
+              data={{ quantity: nextQuantity }}
+            />
+          </button>
+        </UpdateCartButton>
+      </div>
+    </div>
+  );
+}
+
+function CartLineItem({
+  line,
+  layout,
+  inBundle = false,
+}: {
+  line: CartLine;
+  layout: Layouts;
+  inBundle?: boolean;
+}) {
   const optimisticData = useOptimisticData<OptimisticData>(line?.id);
 
   if (!line?.id) return null;
@@ -265,10 +538,10 @@ function CartLineItem({ line, layout }: { line: CartLine; layout: Layouts }) {
     return null;
   }
 
-  let { image, title, product, selectedOptions } = merchandise;
+  const { image, title, product, selectedOptions } = merchandise;
   let url = `/products/${product.handle}`;
   if (selectedOptions?.length) {
-    let params = new URLSearchParams();
+    const params = new URLSearchParams();
     for (const option of selectedOptions) {
       params.append(option.name, option.value);
     }
@@ -309,8 +582,14 @@ function CartLineItem({ line, layout }: { line: CartLine; layout: Layouts }) {
               )}
             </div>
             <div className="text-sm text-gray-500 space-y-0.5">{title}</div>
+            <CartLineSellingPlan line={line} />
+            <CartLineStock line={line} inBundle={inBundle} />
+            <CartLineAttributes line={line} />
+            {!(line.isOptimistic || inBundle) && (
+              <SaveForLaterButton line={line} />
+            )}
           </div>
-          {layout === "drawer" && (
+          {layout === "drawer" && !inBundle && (
             <ItemRemoveButton lineId={id} className="-mt-1.5 -mr-2" />
           )}
         </div>
@@ -320,15 +599,134 @@ function CartLineItem({ line, layout }: { line: CartLine; layout: Layouts }) {
             layout === "drawer" && "justify-between",
           )}
         >
-          <CartLineQuantityAdjust line={line} />
-          {layout === "page" && <ItemRemoveButton lineId={id} />}
+          {inBundle ? (
+            <span className="text-sm text-body-subtle">Qty {quantity}</span>
+          ) : (
+            <CartLineQuantityAdjust line={line} />
+          )}
+          {layout === "page" && !inBundle && <ItemRemoveButton lineId={id} />}
           <CartLinePrice line={line} as="span" />
         </div>
+        {!inBundle && <CartLineErrors lineId={id} />}
       </div>
     </li>
   );
 }
 
+/**
+ * The subscription of a line bought with a selling plan,
+ * with the price charged on each delivery
+ */
+function CartLineSellingPlan({ line }: { line: CartLine }) {
+  const allocation = line.sellingPlanAllocation;
+  if (!allocation) {
+    return null;
+  }
+  const { sellingPlan, priceAdjustments } = allocation;
+  const perDeliveryPrice = priceAdjustments[0]?.perDeliveryPrice;
+
+  return (
+    <div
+      className="text-sm text-body-subtle"
+      data-test="cart-line-selling-plan"
+    >
+      <span>{sellingPlan.name}</span>
+      {sellingPlan.recurringDeliveries && perDeliveryPrice && (
+        <span>
+          {" · "}
+          <Money as="span" withoutTrailingZeros data={perDeliveryPrice} /> per
+          delivery
+        </span>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Flag lines that can't be bought anymore, with a one-click removal outside
+ * of bundles, pre-ordered lines and lines running low on stock
+ */
+function CartLineStock({
+  line,
+  inBundle,
+}: {
+  line: CartLine;
+  inBundle: boolean;
+}) {
+  const { id, merchandise, attributes, isOptimistic } = line;
+  const { availableForSale } = merchandise;
+
+  if (!availableForSale) {
+    return (
+      <div
+        className="flex items-center gap-3 text-sm text-red-700"
+        data-test="cart-line-unavailable"
+      >
+        <span>No longer available</span>
+        {/* Bundle lines are only removed with the whole bundle */}
+        {!(isOptimistic || inBundle) && (
+          <CartForm
+            route="/cart"
+            action={CartForm.ACTIONS.LinesRemove}
+            inputs={{ lineIds: [id] }}
+          >
+            <button type="submit" className="underline underline-offset-4">
+              Remove
+            </button>
+            <OptimisticInput id={id} data={{ action: "remove" }} />
+          </CartForm>
+        )}
+      </div>
+    );
+  }
+
+  const preorder = attributes?.find(({ key }) => key === PREORDER_ATTRIBUTE);
+  if (preorder) {
+    return (
+      <div className="text-sm text-body-subtle" data-test="cart-line-preorder">
+        {getPreorderText(preorder.value)}
+      </div>
+    );
+  }
+
+  const maxQuantity = getMaxLineQuantity(merchandise);
+  if (maxQuantity > LOW_STOCK_THRESHOLD) {
+    return null;
+  }
+  return (
+    <div className="text-sm text-red-700" data-test="cart-line-low-stock">
+      Only {maxQuantity} left
+    </div>
+  );
+}
+
+/**
+ * Errors and warnings returned when updating the quantity of a line,
+ * e.g. when the requested quantity exceeds the stock
+ */
+function CartLineErrors({ lineId }: { lineId: CartLine["id"] }) {
+  const { data, state } = useFetcher<{
+    userErrors?: { message: string }[];
+    warnings?: { message: string }[];
+  }>({ key: getLineFetcherKey(lineId) });
+  const messages = [...(data?.userErrors || []), ...(data?.warnings || [])];
+
+  if (state !== "idle" || !messages.length) {
+    return null;
+  }
+  return (
+    <ul className="text-sm text-red-700" role="alert">
+      {messages.map(({ message }) => (
+        <li key={message}>{message}</li>
+      ))}
+    </ul>
+  );
+}
+
+function getLineFetcherKey(lineId: CartLine["id"]) {
+  return `cart-line-${lineId}`;
+}
+
 function ItemRemoveButton({
   lineId,
   className,
@@ -357,6 +755,35 @@ function ItemRemoveButton({
   );
 }
 
+/**
+ * Move a cart line to the saved for later list, with its quantity and attributes
+ */
+function SaveForLaterButton({ line }: { line: CartLine }) {
+  const { id, quantity, attributes, merchandise } = line;
+  return (
+    <CartForm
+      route="/cart"
+      action={CART_CUSTOM_ACTIONS.SaveForLater}
+      inputs={{
+        line: {
+          id,
+          merchandiseId: merchandise.id,
+          quantity,
+          attributes: attributes?.map(({ key, value }) => ({ key, value })),
+        },
+      }}
+    >
+      <button
+        type="submit"
+        className="text-sm underline underline-offset-4 text-body-subtle"
+      >
+        Save for later
+      </button>
+      <OptimisticInput id={id} data={{ action: "remove" }} />
+    </CartForm>
+  );
+}
+
 function CartLineQuantityAdjust({ line }: { line: CartLine }) {
   const optimisticId = line?.id;
   const optimisticData = useOptimisticData<OptimisticData>(optimisticId);
@@ -367,7 +794,8 @@ function CartLineQuantityAdjust({ line }: { line: CartLine }) {
 
   const optimisticQuantity = optimisticData?.quantity || line.quantity;
 
-  const { id: lineId, isOptimistic } = line;
+  const { id: lineId, isOptimistic, merchandise } = line;
+  const maxQuantity = getMaxLineQuantity(merchandise);
   const prevQuantity = Number(Math.max(0, optimisticQuantity - 1).toFixed(0));
   const nextQuantity = Number((optimisticQuantity + 1).toFixed(0));
 
@@ -377,7 +805,10 @@ function CartLineQuantityAdjust({ line }: { line: CartLine }) {
         Quantity, {optimisticQuantity}
       </label>
       <div className="flex items-center border border-line-subtle">
-        <UpdateCartButton lines={[{ id: lineId, quantity: prevQuantity }]}>
+        <UpdateCartButton
+          lines={[{ id: lineId, quantity: prevQuantity }]}
+          fetcherKey={getLineFetcherKey(lineId)}
+        >
           <button
             type="submit"
             name="decrease-quantity"
@@ -398,14 +829,21 @@ function CartLineQuantityAdjust({ line }: { line: CartLine }) {
           {optimisticQuantity}
         </div>
 
-        <UpdateCartButton lines={[{ id: lineId, quantity: nextQuantity }]}>
+        <UpdateCartButton
+          lines={[{ id: lineId, quantity: nextQuantity }]}
+          fetcherKey={getLineFetcherKey(lineId)}
+        >
           <button
             type="submit"
             className="w-9 h-9 transition disabled:text-body-subtle disabled:cursor-not-allowed"
             name="increase-quantity"
             value={nextQuantity}
             aria-label="Increase quantity"
-            disabled={isOptimistic}
+            disabled={
+              isOptimistic ||
+              !merchandise.availableForSale ||
+              optimisticQuantity >= maxQuantity
+            }
           >
             <span>&#43;</span>
             <OptimisticInput
@@ -422,14 +860,17 @@ function CartLineQuantityAdjust({ line }: { line: CartLine }) {
 function UpdateCartButton({
   children,
   lines,
+  fetcherKey,
 }: {
   children: React.ReactNode;
   lines: CartLineUpdateInput[];
+  fetcherKey?: string;
 }) {
   return (
     <CartForm
       route="/cart"
       action={CartForm.ACTIONS.LinesUpdate}
+      fetcherKey={fetcherKey}
       inputs={{
         lines,
       }}
@@ -508,6 +949,7 @@ function CartEmpty({
           Start Shopping
         </Link>
       </div>
+      <CartSavedForLater layout={layout} />
       <div className="grid gap-4">
         <CartBestSellers
           count={4}
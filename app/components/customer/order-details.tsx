@@ -6,6 +6,7 @@ import { Image } from "~/components/image";
 import { Link } from "~/components/link";
 import { Section } from "~/components/section";
 import type { loader as orderDetailsLoader } from "~/routes/($locale).account.orders.$id";
+import { isPrivateAttribute } from "~/utils/cart";
 import { ORDER_STATUS } from "./orders";
 
 export function OrderDetails() {
@@ -20,6 +21,10 @@ export function OrderDetails() {
     );
   }
 
+  const giftOptions = order.customAttributes.filter(
+    (attr) => attr.value && !isPrivateAttribute(attr),
+  );
+
   const totalDiscountMoney = {
     amount: totalDiscount.toString(),
     currencyCode: order.totalPrice?.currencyCode,
@@ -68,6 +73,15 @@ export function OrderDetails() {
                         <div className="text-body-subtle text-sm">
                           {lineItem.variantTitle}
                         </div>
+                        {lineItem.customAttributes
+                          .filter(
+                            (attr) => attr.value && !isPrivateAttribute(attr),
+                          )
+                          .map(({ key, value }) => (
+                            <div key={key} className="text-body-subtle text-sm">
+                              {key}: {value}
+                            </div>
+                          ))}
                       </dd>
                       <dt className="sr-only">Quantity</dt>
                       <dd className="truncate mt-1 grow">
@@ -164,6 +178,26 @@ export function OrderDetails() {
               ) : (
                 <p className="mt-3">No shipping address defined</p>
               )}
+              {giftOptions.length > 0 && (
+                <>
+                  <div className="font-bold mt-6">Gift options</div>
+                  <ul className="mt-3">
+                    {giftOptions.map(({ key, value }) => (
+                      <li key={key} className="text-body-subtle">
+                        {key}: {value}
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+              {order.note && (
+                <>
+                  <div className="font-bold mt-6">Delivery instructions</div>
+                  <p className="mt-3 text-body-subtle whitespace-pre-line">
+                    {order.note}
+                  </p>
+                </>
+              )}
               <div className="font-bold mt-6">Status</div>
               {fulfillmentStatus && (
                 <div
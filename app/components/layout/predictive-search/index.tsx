@@ -1,17 +1,29 @@
 import {
   ArrowRightIcon,
+  ClockCounterClockwiseIcon,
   MagnifyingGlassIcon,
   XIcon,
 } from "@phosphor-icons/react";
 import * as Dialog from "@radix-ui/react-dialog";
 import * as VisuallyHidden from "@radix-ui/react-visually-hidden";
-import { type MutableRefObject, useEffect, useState } from "react";
-import { useLocation } from "react-router";
-import Link from "~/components/link";
+import { useThemeSettings } from "@weaverse/hydrogen";
+import { type KeyboardEvent, useEffect, useId, useRef, useState } from "react";
+import { useLocation, useNavigate } from "react-router";
 import { usePredictiveSearch } from "~/hooks/use-predictive-search";
+import { usePrefixPathWithLocale } from "~/hooks/use-prefix-path-with-locale";
+import {
+  addRecentSearch,
+  clearRecentSearches,
+  useRecentSearches,
+} from "~/hooks/use-recent-searches";
+import { RevealUnderline } from "~/reveal-underline";
+import type { NormalizedPredictiveSearchResults } from "~/types/predictive-search";
 import { cn } from "~/utils/cn";
-import { PredictiveSearchResult } from "./predictive-search-result";
-import { PredictiveSearchForm } from "./search-form";
+import {
+  PredictiveSearchResult,
+  SearchListbox,
+  SearchOption,
+} from "./predictive-search-result";
 
 export function PredictiveSearchButton() {
   const [open, setOpen] = useState(false);
@@ -28,7 +40,7 @@ export function PredictiveSearchButton() {
         asChild
         className="hidden lg:flex h-8 w-8 items-center justify-center focus-visible:outline-hidden"
       >
-        <button type="button">
+        <button type="button" aria-label="Open search">
           <MagnifyingGlassIcon className="w-5 h-5" />
         </button>
       </Dialog.Trigger>
@@ -53,36 +65,7 @@ export function PredictiveSearchButton() {
             <Dialog.Title>Predictive search</Dialog.Title>
           </VisuallyHidden.Root>
           <div className="relative pt-(--topbar-height)">
-            <PredictiveSearchForm>
-              {({ fetchResults, inputRef }) => (
-                <div className="flex items-center gap-3 w-[560px] max-w-[90vw] mx-auto px-3 my-6 border border-line-subtle">
-                  <MagnifyingGlassIcon className="h-5 w-5 shrink-0 text-gray-500" />
-                  <input
-                    name="q"
-                    type="search"
-                    onChange={(e) => fetchResults(e.target.value)}
-                    onFocus={(e) => fetchResults(e.target.value)}
-                    placeholder="Enter a keyword"
-                    ref={inputRef}
-                    autoComplete="off"
-                    className="focus-visible:outline-hidden w-full h-full py-4"
-                  />
-                  <button
-                    type="button"
-                    className="shrink-0 text-gray-500 p-1"
-                    onClick={() => {
-                      if (inputRef.current) {
-                        inputRef.current.value = "";
-                        fetchResults("");
-                      }
-                    }}
-                  >
-                    <XIcon className="w-5 h-5" />
-                  </button>
-                </div>
-              )}
-            </PredictiveSearchForm>
-            <PredictiveSearchResults />
+            <PredictiveSearchCombobox />
           </div>
         </Dialog.Content>
       </Dialog.Portal>
@@ -90,60 +73,249 @@ export function PredictiveSearchButton() {
   );
 }
 
-function PredictiveSearchResults() {
-  const { results, totalResults, searchTerm } = usePredictiveSearch();
-  const queries = results?.find(({ type }) => type === "queries");
-  const articles = results?.find(({ type }) => type === "articles");
-  const products = results?.find(({ type }) => type === "products");
+type ResultGroup = {
+  type: NormalizedPredictiveSearchResults[number]["type"];
+  setting: string;
+  column: "left" | "right";
+  limit?: number;
+};
 
-  if (!totalResults) {
-    return (
-      <div className="absolute top-full z-10 flex w-full items-center justify-center">
-        <NoResults searchTerm={searchTerm} />
-      </div>
-    );
+// Rendered in this order, which is also the arrow keys navigation order
+const RESULT_GROUPS: ResultGroup[] = [
+  { type: "queries", setting: "predictiveSearchShowQueries", column: "left" },
+  {
+    type: "collections",
+    setting: "predictiveSearchShowCollections",
+    column: "left",
+  },
+  { type: "pages", setting: "predictiveSearchShowPages", column: "left" },
+  { type: "articles", setting: "predictiveSearchShowArticles", column: "left" },
+  {
+    type: "products",
+    setting: "predictiveSearchShowProducts",
+    column: "right",
+    limit: 5,
+  },
+];
+
+/**
+ * WAI-ARIA combobox: the focus stays in the input while the arrow keys move
+ * the highlighted option across the result groups, Enter opens it
+ */
+function PredictiveSearchCombobox() {
+  const id = useId();
+  const listboxId = `${id}-listbox`;
+  const navigate = useNavigate();
+  const searchPath = usePrefixPathWithLocale("/search");
+  const settings = useThemeSettings();
+  const {
+    results,
+    totalResults,
+    searchTerm: term,
+    search,
+  } = usePredictiveSearch();
+  const recentSearches = useRecentSearches();
+  const inputRef = useRef<HTMLInputElement>(null);
+  // The highlighted option is reset when the search term or results change
+  const [active, setActive] = useState({ index: -1, term, results });
+  const activeIndex =
+    active.term === term && active.results === results ? active.index : -1;
+  const setActiveIndex = (index: number) => setActive({ index, term, results });
+
+  const groups = RESULT_GROUPS.filter(
+    ({ setting }) => term && totalResults && settings[setting],
+  )
+    .map((group) => ({
+      ...group,
+      items:
+        results
+          ?.find(({ type }) => type === group.type)
+          ?.items.slice(0, group.limit) || [],
+    }))
+    .filter(({ items }) => items.length > 0);
+  let optionsCount = term ? 0 : recentSearches.length;
+  const offsets = groups.map(({ items }) => {
+    const offset = optionsCount;
+    optionsCount += items.length;
+    return offset;
+  });
+  const viewAllIndex = groups.length ? optionsCount++ : -1;
+  const activeId =
+    activeIndex >= 0 && activeIndex < optionsCount
+      ? getOptionId(activeIndex)
+      : undefined;
+
+  function getOptionId(index: number) {
+    return `${id}-option-${index}`;
+  }
+
+  function handleKeyDown(event: KeyboardEvent<HTMLInputElement>) {
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      if (!optionsCount) return;
+      event.preventDefault();
+      if (event.key === "ArrowDown") {
+        setActiveIndex(activeIndex < optionsCount - 1 ? activeIndex + 1 : 0);
+      } else {
+        setActiveIndex(activeIndex > 0 ? activeIndex - 1 : optionsCount - 1);
+      }
+    } else if (event.key === "Enter") {
+      event.preventDefault();
+      const value = event.currentTarget.value.trim();
+      if (activeId) {
+        document.getElementById(activeId)?.click();
+      } else if (value) {
+        addRecentSearch(value);
+        navigate(`${searchPath}?q=${encodeURIComponent(value)}`);
+      }
+    }
   }
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    if (activeId) {
+      document.getElementById(activeId)?.scrollIntoView({ block: "nearest" });
+    }
+  }, [activeId]);
+
   return (
-    <div className="absolute left-1/2 top-full z-10 flex w-fit -translate-x-1/2 items-center justify-center">
-      <div className="grid w-screen min-w-[430px] max-w-[720px] grid-cols-1 gap-6 bg-(--color-header-bg) p-6 lg:grid-cols-[1fr_2fr] max-h-[80vh] overflow-y-auto">
-        <div className="space-y-8">
-          <div className="flex flex-col gap-4 divide-y divide-line">
-            <PredictiveSearchResult type="queries" items={queries?.items} />
+    <>
+      <div className="flex items-center gap-3 w-[560px] max-w-[90vw] mx-auto px-3 my-6 border border-line-subtle">
+        <MagnifyingGlassIcon className="h-5 w-5 shrink-0 text-gray-500" />
+        <input
+          name="q"
+          type="search"
+          role="combobox"
+          aria-label="Search"
+          aria-autocomplete="list"
+          aria-expanded={optionsCount > 0}
+          aria-controls={listboxId}
+          aria-activedescendant={activeId}
+          onChange={(e) => search(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Enter a keyword"
+          ref={inputRef}
+          autoComplete="off"
+          className="focus-visible:outline-hidden w-full h-full py-4"
+        />
+        <button
+          type="button"
+          aria-label="Clear search"
+          className="shrink-0 text-gray-500 p-1"
+          onClick={() => {
+            if (inputRef.current) {
+              inputRef.current.value = "";
+              search("");
+              inputRef.current.focus();
+            }
+          }}
+        >
+          <XIcon className="w-5 h-5" />
+        </button>
+      </div>
+      {term ? (
+        groups.length ? (
+          <div className="absolute left-1/2 top-full z-10 flex w-fit -translate-x-1/2 items-center justify-center">
+            <SearchListbox
+              id={listboxId}
+              aria-label="Search results"
+              className="grid w-screen min-w-[430px] max-w-[720px] grid-cols-1 gap-6 bg-(--color-header-bg) p-6 lg:grid-cols-[1fr_2fr] max-h-[80vh] overflow-y-auto"
+            >
+              {(["left", "right"] as const).map((column) => (
+                <div
+                  key={column}
+                  className={column === "left" ? "space-y-8" : "space-y-6"}
+                >
+                  {groups.map(
+                    ({ type, items, column: groupColumn }, idx) =>
+                      groupColumn === column && (
+                        <PredictiveSearchResult
+                          key={type}
+                          type={type}
+                          items={items}
+                          searchTerm={term}
+                          startIndex={offsets[idx]}
+                          activeIndex={activeIndex}
+                          getOptionId={getOptionId}
+                          onHighlight={setActiveIndex}
+                          onSelect={() => addRecentSearch(term)}
+                        />
+                      ),
+                  )}
+                  {column === "right" && (
+                    <SearchOption
+                      id={getOptionId(viewAllIndex)}
+                      to={`${searchPath}?q=${encodeURIComponent(term)}`}
+                      active={activeIndex === viewAllIndex}
+                      onHighlight={() => setActiveIndex(viewAllIndex)}
+                      onSelect={() => addRecentSearch(term)}
+                    >
+                      <span className="flex items-center gap-2 w-fit">
+                        <RevealUnderline>View all results</RevealUnderline>
+                        <ArrowRightIcon className="w-4 h-4" />
+                      </span>
+                    </SearchOption>
+                  )}
+                </div>
+              ))}
+            </SearchListbox>
           </div>
-          <div className="flex flex-col gap-4">
-            <PredictiveSearchResult type="articles" items={articles?.items} />
+        ) : (
+          <div className="absolute top-full z-10 flex w-full items-center justify-center">
+            <NoResults searchTerm={term} />
           </div>
-        </div>
-        <div className="space-y-6">
-          <PredictiveSearchResult
-            type="products"
-            items={products?.items?.slice(0, 5)}
-          />
-          {searchTerm.current && (
-            <div>
-              <Link
-                to={`/search?q=${searchTerm.current}`}
-                variant="underline"
-                className="flex items-center gap-2 w-fit"
+        )
+      ) : (
+        recentSearches.length > 0 && (
+          <div className="absolute left-1/2 top-full z-10 flex w-fit -translate-x-1/2 items-center justify-center">
+            <div className="w-screen min-w-[430px] max-w-[560px] space-y-4 bg-(--color-header-bg) p-6">
+              <div className="flex items-center justify-between gap-4 border-b border-line-subtle pb-3">
+                <div id={`${id}-recent`} className="uppercase font-bold">
+                  Recent searches
+                </div>
+                <button
+                  type="button"
+                  className="text-sm underline underline-offset-4"
+                  onClick={clearRecentSearches}
+                >
+                  Clear
+                </button>
+              </div>
+              <SearchListbox
+                id={listboxId}
+                aria-labelledby={`${id}-recent`}
+                className="space-y-1"
               >
-                <span>View all results</span>
-                <ArrowRightIcon className="w-4 h-4" />
-              </Link>
+                {recentSearches.map((recent, idx) => (
+                  <SearchOption
+                    key={recent}
+                    id={getOptionId(idx)}
+                    to={`${searchPath}?q=${encodeURIComponent(recent)}`}
+                    active={activeIndex === idx}
+                    onHighlight={() => setActiveIndex(idx)}
+                    onSelect={() => addRecentSearch(recent)}
+                  >
+                    <span className="flex items-center gap-2">
+                      <ClockCounterClockwiseIcon className="w-4 h-4 shrink-0 text-body-subtle" />
+                      <RevealUnderline>{recent}</RevealUnderline>
+                    </span>
+                  </SearchOption>
+                ))}
+              </SearchListbox>
             </div>
-          )}
-        </div>
-      </div>
-    </div>
+          </div>
+        )
+      )}
+    </>
   );
 }
 
-function NoResults({ searchTerm }: { searchTerm: MutableRefObject<string> }) {
-  if (!searchTerm.current) {
-    return null;
-  }
+function NoResults({ searchTerm }: { searchTerm: string }) {
   return (
     <p className="w-[640px] shadow-header bg-background p-6">
-      No results found for <q>{searchTerm.current}</q>
+      No results found for <q>{searchTerm}</q>
     </p>
   );
 }
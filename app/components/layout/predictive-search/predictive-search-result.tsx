@@ -1,117 +1,203 @@
 import { Money } from "@shopify/hydrogen";
 import type { MoneyV2 } from "@shopify/hydrogen/storefront-api-types";
 import clsx from "clsx";
+import { Fragment } from "react";
+import { useNavigate } from "react-router";
 import { CompareAtPrice } from "~/components/compare-at-price";
 import { Image } from "~/components/image";
-import { Link } from "~/components/link";
+import { usePrefixPathWithLocale } from "~/hooks/use-prefix-path-with-locale";
 import { RevealUnderline } from "~/reveal-underline";
 import type {
   NormalizedPredictiveSearchResultItem,
   NormalizedPredictiveSearchResults,
 } from "~/types/predictive-search";
 import { isDiscounted } from "~/utils/product";
+import { getHighlightedParts } from "~/utils/search";
 
 type SearchResultTypeProps = {
-  items?: NormalizedPredictiveSearchResultItem[];
+  items: NormalizedPredictiveSearchResultItem[];
   type: NormalizedPredictiveSearchResults[number]["type"];
+  searchTerm: string;
+  startIndex: number;
+  activeIndex: number;
+  getOptionId: (index: number) => string;
+  onHighlight: (index: number) => void;
+  onSelect: () => void;
 };
 
-export function PredictiveSearchResult({ items, type }: SearchResultTypeProps) {
-  const isSuggestions = type === "queries";
+/**
+ * Group of options of the predictive search listbox, its heading is only
+ * used as the group label
+ */
+export function PredictiveSearchResult({
+  items,
+  type,
+  searchTerm,
+  startIndex,
+  activeIndex,
+  getOptionId,
+  onHighlight,
+  onSelect,
+}: SearchResultTypeProps) {
+  const searchPath = usePrefixPathWithLocale("/search");
+  const headingId = `${getOptionId(startIndex)}-${type}`;
 
   return (
-    <div key={type} className="predictive-search-result flex flex-col gap-4">
-      <div className="uppercase font-bold border-b border-line-subtle pb-3">
-        {isSuggestions ? "Suggestions" : type}
+    // biome-ignore lint/a11y/useSemanticElements: a fieldset can't group listbox options
+    <div
+      role="group"
+      aria-labelledby={headingId}
+      className="predictive-search-result flex flex-col gap-4"
+    >
+      <div
+        id={headingId}
+        aria-hidden="true"
+        className="uppercase font-bold border-b border-line-subtle pb-3"
+      >
+        {type === "queries" ? "Suggestions" : type}
       </div>
-      {items?.length ? (
-        <ul
-          className={clsx(
-            type === "queries" && "space-y-1",
-            type === "articles" && "space-y-3",
-            type === "products" && "space-y-4",
-          )}
-        >
-          {items.map((item: NormalizedPredictiveSearchResultItem) => (
-            <SearchResultItem item={item} key={item.id} />
-          ))}
-        </ul>
-      ) : (
-        <div className="text-body-subtle">
-          No {isSuggestions ? "suggestions" : type} available.
-        </div>
+      <div
+        className={clsx(
+          type === "queries" && "space-y-1",
+          (type === "articles" || type === "collections" || type === "pages") &&
+            "space-y-3",
+          type === "products" && "space-y-4",
+        )}
+      >
+        {items.map((item, idx) => (
+          <SearchOption
+            key={item.id}
+            id={getOptionId(startIndex + idx)}
+            to={
+              item.__typename === "SearchQuerySuggestion" || !item.url
+                ? `${searchPath}?q=${encodeURIComponent(item.id)}`
+                : item.url
+            }
+            active={activeIndex === startIndex + idx}
+            onHighlight={() => onHighlight(startIndex + idx)}
+            onSelect={onSelect}
+          >
+            <SearchResultItem item={item} searchTerm={searchTerm} />
+          </SearchOption>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Listbox of the predictive search combobox, it holds option groups and
+ * options only
+ */
+export function SearchListbox(props: React.HTMLAttributes<HTMLDivElement>) {
+  // biome-ignore lint/a11y/useSemanticElements: options with rich content can't be native elements
+  return <div role="listbox" {...props} />;
+}
+
+/**
+ * Option of the predictive search listbox, it is highlighted with the arrow
+ * keys while the focus stays in the search input. Options hold no links,
+ * they navigate to their `to` path when clicked or when Enter is pressed.
+ */
+export function SearchOption({
+  id,
+  to,
+  active,
+  onHighlight,
+  onSelect,
+  children,
+}: {
+  id: string;
+  /** The path to navigate to, already prefixed with the locale */
+  to: string;
+  active: boolean;
+  onHighlight: () => void;
+  onSelect: () => void;
+  children: React.ReactNode;
+}) {
+  const navigate = useNavigate();
+  const select = () => {
+    onSelect();
+    navigate(to);
+  };
+
+  return (
+    // biome-ignore lint/a11y/useSemanticElements: options with rich content can't be native elements
+    <div
+      id={id}
+      role="option"
+      tabIndex={-1}
+      aria-selected={active}
+      data-href={to}
+      onMouseMove={active ? undefined : onHighlight}
+      onClick={select}
+      // The focus stays in the search input, unless the option was clicked
+      onKeyDown={(e) => e.key === "Enter" && select()}
+      className={clsx(
+        "-mx-2 px-2 py-1 cursor-pointer",
+        active && "bg-line-subtle/50",
       )}
+    >
+      {children}
     </div>
   );
 }
 
+function HighlightedText({ text, term }: { text: string; term: string }) {
+  return getHighlightedParts(text, term).map((part, idx) =>
+    part.match ? (
+      <mark key={idx} className="bg-transparent font-bold">
+        {part.text}
+      </mark>
+    ) : (
+      <Fragment key={idx}>{part.text}</Fragment>
+    ),
+  );
+}
+
 type SearchResultItemProps = {
   item: NormalizedPredictiveSearchResultItem;
+  searchTerm: string;
 };
 
 function SearchResultItem({
-  item: {
-    id,
-    __typename,
-    image,
-    compareAtPrice,
-    price,
-    title,
-    url,
-    vendor,
-    styledTitle,
-  },
+  item: { __typename, image, compareAtPrice, price, title, vendor },
+  searchTerm,
 }: SearchResultItemProps) {
   return (
-    <li key={id}>
-      <Link
-        className="flex gap-4"
-        to={
-          __typename === "SearchQuerySuggestion" || !url
-            ? `/search?q=${id}`
-            : url
-        }
-        data-type={__typename}
-      >
-        {__typename === "Product" && (
-          <div className="h-20 w-20 shrink-0">
-            {image?.url && (
-              <Image
-                alt={image.altText ?? ""}
-                src={image.url}
-                width={200}
-                aspectRatio="1/1"
-              />
-            )}
-          </div>
-        )}
-        <div className="space-y-1">
-          {vendor && (
-            <div className="text-body-subtle text-sm">By {vendor}</div>
+    <div className="flex gap-4" data-type={__typename}>
+      {__typename === "Product" && (
+        <div className="h-20 w-20 shrink-0">
+          {image?.url && (
+            <Image
+              alt={image.altText ?? ""}
+              src={image.url}
+              width={200}
+              aspectRatio="1/1"
+            />
           )}
-          {styledTitle ? (
-            <RevealUnderline as="div">
-              <span dangerouslySetInnerHTML={{ __html: styledTitle }} />
-            </RevealUnderline>
-          ) : (
-            <div
-              className={clsx(
-                __typename === "Product" ? "line-clamp-1" : "line-clamp-2",
-              )}
-            >
-              <RevealUnderline>{title}</RevealUnderline>
-            </div>
-          )}
-          {price && (
-            <div className="flex gap-2 text-sm pt-1">
-              <Money withoutTrailingZeros data={price as MoneyV2} />
-              {isDiscounted(price as MoneyV2, compareAtPrice as MoneyV2) && (
-                <CompareAtPrice data={compareAtPrice as MoneyV2} />
-              )}
-            </div>
+        </div>
+      )}
+      <div className="space-y-1">
+        {vendor && <div className="text-body-subtle text-sm">By {vendor}</div>}
+        <div
+          className={clsx(
+            __typename === "Product" ? "line-clamp-1" : "line-clamp-2",
           )}
+        >
+          <RevealUnderline>
+            <HighlightedText text={title} term={searchTerm} />
+          </RevealUnderline>
         </div>
-      </Link>
-    </li>
+        {price && (
+          <div className="flex gap-2 text-sm pt-1">
+            <Money withoutTrailingZeros data={price as MoneyV2} />
+            {isDiscounted(price as MoneyV2, compareAtPrice as MoneyV2) && (
+              <CompareAtPrice data={compareAtPrice as MoneyV2} />
+            )}
+          </div>
+        )}
+      </div>
+    </div>
   );
 }
@@ -16,6 +16,12 @@ import { Button } from "~/components/button";
 import { toggleCartDrawer } from "~/components/layout/cart-drawer";
 import { cn } from "~/utils/cn";
 import { DEFAULT_LOCALE } from "~/utils/const";
+import {
+  getPreorderAttributes,
+  getPreorderText,
+  isPreorder,
+  type PreorderVariant,
+} from "~/utils/product";
 
 export function AddToCartButton({
   children,
@@ -24,6 +30,8 @@ export function AddToCartButton({
   width = "full",
   disabled,
   analytics,
+  discountCode,
+  validate,
   ...props
 }: {
   children: React.ReactNode;
@@ -32,12 +40,30 @@ export function AddToCartButton({
   width?: "auto" | "full";
   disabled?: boolean;
   analytics?: unknown;
+  /** Applied to the cart along with the lines, e.g. a quantity break code */
+  discountCode?: string;
+  /** Called before submitting, the lines are not added if it returns `false` */
+  validate?: () => boolean;
   [key: string]: any;
 }) {
+  // Pre-ordered lines are flagged with a private attribute for fulfillment
+  const cartLines = lines.map((line) => {
+    const preorder = getPreorderAttributes(
+      line.selectedVariant as PreorderVariant,
+    );
+    if (!preorder.length) return line;
+    return { ...line, attributes: [...(line.attributes || []), ...preorder] };
+  });
+  const variant = lines[0]?.selectedVariant as PreorderVariant;
+  const preorderText =
+    lines.length === 1 && isPreorder(variant)
+      ? getPreorderText(variant.preorderDate?.value)
+      : null;
+
   return (
     <CartForm
       route="/cart"
-      inputs={{ lines }}
+      inputs={{ lines: cartLines, discountCode }}
       action={CartForm.ACTIONS.LinesAdd}
     >
       {(fetcher: FetcherWithComponents<any>) => {
@@ -55,10 +81,16 @@ export function AddToCartButton({
                 className,
               )}
               disabled={disabled ?? fetcher.state !== "idle"}
-              onClick={() => toggleCartDrawer(true)}
+              onClick={(e) => {
+                if (validate && !validate()) {
+                  e.preventDefault();
+                  return;
+                }
+                toggleCartDrawer(true);
+              }}
               {...props}
             >
-              {children}
+              {preorderText || children}
             </Button>
           </AddToCartAnalytics>
         );
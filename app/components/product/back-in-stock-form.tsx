@@ -0,0 +1,75 @@
+import { BellIcon } from "@phosphor-icons/react";
+import { useFetcher } from "react-router";
+import { Button } from "~/components/button";
+import { usePrefixPathWithLocale } from "~/hooks/use-prefix-path-with-locale";
+import type { BackInStockResponse } from "~/routes/($locale).api.back-in-stock";
+
+/**
+ * Back in stock signup, shown in place of the add to cart button when the
+ * selected variant is sold out.
+ */
+export function BackInStockForm({
+  variantId,
+  soldOutText,
+}: {
+  variantId: string;
+  soldOutText?: string;
+}) {
+  // Keyed by variant so switching variants starts a new signup
+  const fetcher = useFetcher<BackInStockResponse>({
+    key: `back-in-stock-${variantId}`,
+  });
+  const { data, state } = fetcher;
+  const action = usePrefixPathWithLocale("/api/back-in-stock");
+
+  if (data?.ok) {
+    return (
+      <output className="block p-3 border border-line-subtle">
+        {data.alreadySubscribed
+          ? "You're already on the list, we'll email you when it's back in stock."
+          : "Thanks! We'll email you when it's back in stock."}
+      </output>
+    );
+  }
+
+  return (
+    <fetcher.Form
+      method="post"
+      action={action}
+      className="space-y-2"
+      data-test="back-in-stock-form"
+    >
+      {soldOutText && (
+        <p className="font-medium uppercase text-body-subtle">{soldOutText}</p>
+      )}
+      <label htmlFor={`back-in-stock-email-${variantId}`} className="block">
+        Get notified when this item is back in stock
+      </label>
+      <input type="hidden" name="variantId" value={variantId} />
+      <div className="flex gap-2">
+        <input
+          id={`back-in-stock-email-${variantId}`}
+          name="email"
+          type="email"
+          required
+          autoComplete="email"
+          placeholder="Your email"
+          className="grow min-w-0 p-3 border border-line rounded-none leading-tight!"
+        />
+        <Button
+          type="submit"
+          loading={state !== "idle"}
+          className="flex items-center gap-2"
+        >
+          <BellIcon aria-hidden="true" className="w-4 h-4" />
+          Notify me when available
+        </Button>
+      </div>
+      {data?.error && (
+        <p className="text-sm text-red-700" role="alert">
+          {data.error}
+        </p>
+      )}
+    </fetcher.Form>
+  );
+}
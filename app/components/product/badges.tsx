@@ -61,11 +61,19 @@ export function BestSellerBadge({ className }: { className?: string }) {
   );
 }
 
-export function SoldOutBadge({ className }: { className?: string }) {
-  const { soldOutBadgeText, soldOutBadgeColor } = useThemeSettings();
+export function SoldOutBadge({
+  preorder,
+  className,
+}: {
+  /** Backorderable variants are not sold out but on pre-order */
+  preorder?: boolean;
+  className?: string;
+}) {
+  const { soldOutBadgeText, preorderBadgeText, soldOutBadgeColor } =
+    useThemeSettings();
   return (
     <Badge
-      text={soldOutBadgeText}
+      text={preorder ? preorderBadgeText || "Pre-order" : soldOutBadgeText}
       backgroundColor={soldOutBadgeColor}
       className={className}
     />
@@ -0,0 +1,127 @@
+import { XIcon } from "@phosphor-icons/react";
+import clsx from "clsx";
+import { useCallback } from "react";
+import { useLocation } from "react-router";
+import { Image } from "~/components/image";
+import { Link } from "~/components/link";
+import {
+  COMPARE_LIMIT,
+  type CompareItem,
+  useCompare,
+} from "~/hooks/use-compare";
+
+export function getComparePath(handles: string[]) {
+  return `/compare?${new URLSearchParams({ handles: handles.join(",") })}`;
+}
+
+export function CompareCheckbox({
+  item,
+  className,
+}: {
+  item: CompareItem;
+  className?: string;
+}) {
+  const { has, isFull, add, remove } = useCompare();
+  const checked = has(item.handle);
+  const disabled = isFull && !checked;
+
+  return (
+    <label
+      className={clsx(
+        "inline-flex items-center gap-1.5 cursor-pointer",
+        disabled && "opacity-50 cursor-not-allowed",
+        className,
+      )}
+      title={disabled ? `You can compare up to ${COMPARE_LIMIT} products` : ""}
+    >
+      <input
+        type="checkbox"
+        checked={checked}
+        disabled={disabled}
+        onChange={(e) =>
+          e.currentTarget.checked ? add(item) : remove(item.handle)
+        }
+        data-test="compare-toggle"
+      />
+      Compare
+    </label>
+  );
+}
+
+/**
+ * Sticky tray listing the products picked for comparison.
+ * Its height is kept in the `--compare-tray-height` CSS variable so the other
+ * bars pinned to the bottom of the page (e.g. sticky add to cart) sit above it.
+ */
+export function CompareTray() {
+  const { items, remove, clear } = useCompare();
+  const { pathname } = useLocation();
+  const trayRef = useCallback((tray: HTMLElement) => {
+    const setHeight = (height: number) =>
+      document.body.style.setProperty("--compare-tray-height", `${height}px`);
+    const observer = new ResizeObserver(() => setHeight(tray.offsetHeight));
+    observer.observe(tray);
+    return () => {
+      observer.disconnect();
+      setHeight(0);
+    };
+  }, []);
+  if (!items.length || pathname.endsWith("/compare")) {
+    return null;
+  }
+
+  return (
+    <section
+      ref={trayRef}
+      aria-label="Compare products"
+      className="fixed inset-x-0 bottom-0 z-10 border-t border-line-subtle bg-background"
+      data-test="compare-tray"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-4 px-4 py-3 mx-auto max-w-(--page-width)">
+        <ul className="flex gap-3">
+          {items.map((item) => (
+            <li key={item.handle} className="relative w-14 h-14 bg-gray-100">
+              {item.imageUrl && (
+                <Image
+                  data={{ url: item.imageUrl, altText: item.title }}
+                  width={112}
+                  aspectRatio="1/1"
+                  className="h-full"
+                />
+              )}
+              <button
+                type="button"
+                onClick={() => remove(item.handle)}
+                className="absolute -top-2 -right-2 p-0.5 rounded-full border border-line-subtle bg-background"
+              >
+                <XIcon aria-hidden="true" className="w-3 h-3" />
+                <span className="sr-only">Remove {item.title}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+        <div className="flex items-center gap-4">
+          <button
+            type="button"
+            onClick={clear}
+            className="underline underline-offset-4 text-body-subtle"
+          >
+            Clear all
+          </button>
+          {items.length > 1 ? (
+            <Link
+              to={getComparePath(items.map(({ handle }) => handle))}
+              variant="primary"
+            >
+              Compare ({items.length})
+            </Link>
+          ) : (
+            <span className="text-body-subtle">
+              Pick another product to compare
+            </span>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,195 @@
+import { CubeIcon, PlayIcon, VideoCameraIcon } from "@phosphor-icons/react";
+import { ModelViewer } from "@shopify/hydrogen";
+import clsx from "clsx";
+import { useEffect, useRef, useState } from "react";
+import type {
+  Media_ExternalVideo_Fragment,
+  Media_Model3d_Fragment,
+  Media_Video_Fragment,
+  MediaFragment,
+} from "storefront-api.generated";
+import { Image } from "~/components/image";
+import type { ImageAspectRatio } from "~/types/image";
+import { getImageAspectRatio } from "~/utils/image";
+
+/**
+ * Aspect ratio of any media, videos use the size of their source
+ */
+export function getMediaAspectRatio(
+  media: MediaFragment,
+  aspectRatio: ImageAspectRatio,
+) {
+  if (media.__typename === "Video") {
+    return getImageAspectRatio(getVideoSource(media), aspectRatio);
+  }
+  return getImageAspectRatio(media.previewImage, aspectRatio);
+}
+
+function getVideoSource(video: Media_Video_Fragment) {
+  return (
+    video.sources.find(({ mimeType }) => mimeType === "video/mp4") ??
+    video.sources[0]
+  );
+}
+
+/**
+ * Icon shown on the thumbnails of videos & 3D models
+ */
+export function MediaTypeBadge({
+  mediaContentType,
+}: Pick<MediaFragment, "mediaContentType">) {
+  const Icon =
+    mediaContentType === "MODEL_3D"
+      ? CubeIcon
+      : mediaContentType === "VIDEO" || mediaContentType === "EXTERNAL_VIDEO"
+        ? VideoCameraIcon
+        : null;
+  if (!Icon) return null;
+  return (
+    <div className="absolute bottom-2 right-2 bg-gray-900 text-white p-0.5">
+      <Icon className="w-4 h-4" />
+    </div>
+  );
+}
+
+/**
+ * Shopify hosted video, paused when it's no longer active (e.g. slide change)
+ */
+export function VideoMedia({
+  media,
+  aspectRatio,
+  isActive = true,
+  className,
+}: {
+  media: Media_Video_Fragment;
+  aspectRatio: string;
+  isActive?: boolean;
+  className?: string;
+}) {
+  const ref = useRef<HTMLVideoElement>(null);
+  const source = getVideoSource(media);
+
+  useEffect(() => {
+    if (!isActive) {
+      ref.current?.pause();
+    }
+  }, [isActive]);
+
+  if (!source) return null;
+  return (
+    <video
+      ref={ref}
+      controls
+      playsInline
+      aria-label={media.alt || "Product video"}
+      poster={media.previewImage?.url}
+      className={clsx("w-full h-auto object-cover", className)}
+      style={{ aspectRatio }}
+      onError={console.error}
+    >
+      <track kind="captions" />
+      <source src={source.url} type={source.mimeType} />
+    </video>
+  );
+}
+
+/**
+ * YouTube & Vimeo videos. The player is only loaded once the shopper clicks
+ * play, and with the privacy-enhanced options of the hosts.
+ */
+export function ExternalVideoMedia({
+  media,
+  aspectRatio,
+  isActive = true,
+  className,
+}: {
+  media: Media_ExternalVideo_Fragment;
+  aspectRatio: string;
+  isActive?: boolean;
+  className?: string;
+}) {
+  const [playing, setPlaying] = useState(false);
+  const title = media.alt || "Product video";
+
+  // Unloading the player is the only way to stop it without the hosts' APIs
+  useEffect(() => {
+    if (!isActive) {
+      setPlaying(false);
+    }
+  }, [isActive]);
+
+  return (
+    <div
+      className={clsx("relative w-full bg-gray-900", className)}
+      style={{ aspectRatio }}
+    >
+      {playing ? (
+        <iframe
+          src={getPrivacyEmbedUrl(media)}
+          title={title}
+          allow="autoplay; encrypted-media; fullscreen; picture-in-picture"
+          allowFullScreen
+          className="absolute inset-0 w-full h-full"
+        />
+      ) : (
+        <button
+          type="button"
+          onClick={() => setPlaying(true)}
+          className="group absolute inset-0 w-full h-full"
+        >
+          {media.previewImage && (
+            <Image
+              data={{ ...media.previewImage, altText: title }}
+              loading="lazy"
+              width={1660}
+              className="absolute inset-0 h-full"
+              sizes="auto"
+            />
+          )}
+          <span className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 p-4 rounded-full bg-white text-gray-900 transition-transform group-hover:scale-110">
+            <PlayIcon aria-hidden="true" className="w-6 h-6" weight="fill" />
+          </span>
+          <span className="sr-only">Play {title}</span>
+        </button>
+      )}
+    </div>
+  );
+}
+
+function getPrivacyEmbedUrl({
+  embedUrl,
+  host,
+}: Pick<Media_ExternalVideo_Fragment, "embedUrl" | "host">) {
+  const url = new URL(embedUrl);
+  if (host === "YOUTUBE") {
+    url.hostname = "www.youtube-nocookie.com";
+  } else if (host === "VIMEO") {
+    url.searchParams.set("dnt", "1");
+  }
+  url.searchParams.set("autoplay", "1");
+  return url.toString();
+}
+
+/**
+ * 3D model, the `model-viewer` script is only downloaded when a model is shown
+ */
+export function ModelMedia({
+  media,
+  aspectRatio,
+  className,
+}: {
+  media: Media_Model3d_Fragment;
+  aspectRatio: string;
+  className?: string;
+}) {
+  return (
+    <ModelViewer
+      data={{ ...media, alt: media.alt || "Product 3D model" }}
+      className={clsx("block w-full h-auto bg-gray-100", className)}
+      style={{ aspectRatio }}
+      ar
+      cameraControls
+      interactionPrompt="none"
+    />
+  );
+}
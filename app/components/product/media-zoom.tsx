@@ -1,9 +1,4 @@
-import {
-  ArrowLeftIcon,
-  ArrowRightIcon,
-  VideoCameraIcon,
-  XIcon,
-} from "@phosphor-icons/react";
+import { ArrowLeftIcon, ArrowRightIcon, XIcon } from "@phosphor-icons/react";
 import * as Dialog from "@radix-ui/react-dialog";
 import * as VisuallyHidden from "@radix-ui/react-visually-hidden";
 import { parseGid } from "@shopify/hydrogen";
@@ -11,7 +6,6 @@ import clsx from "clsx";
 import { useEffect, useRef } from "react";
 import type {
   Media_MediaImage_Fragment,
-  Media_Video_Fragment,
   MediaFragment,
 } from "storefront-api.generated";
 import { Button } from "~/components/button";
@@ -19,6 +13,13 @@ import { Image } from "~/components/image";
 import { ScrollArea } from "~/components/scroll-area";
 import { cn } from "~/utils/cn";
 import { getImageAspectRatio } from "~/utils/image";
+import {
+  ExternalVideoMedia,
+  getMediaAspectRatio,
+  MediaTypeBadge,
+  ModelMedia,
+  VideoMedia,
+} from "./media-embeds";
 
 export function ZoomModal({
   media,
@@ -127,18 +128,15 @@ export function ZoomModal({
                           className="object-cover w-full h-auto"
                           sizes="auto"
                         />
-                        {mediaContentType === "VIDEO" && (
-                          <div className="absolute bottom-2 right-2 bg-gray-900 text-white p-0.5">
-                            <VideoCameraIcon className="w-4 h-4" />
-                          </div>
-                        )}
+                        <MediaTypeBadge mediaContentType={mediaContentType} />
                       </div>
                     );
                   })}
                 </div>
               </ScrollArea>
             </div>
-            <ZoomMedia media={zoomMedia} />
+            {/* Remount on change so the previous media stops playing */}
+            <ZoomMedia key={zoomMediaId} media={zoomMedia} />
             <Dialog.Close className="absolute top-4 right-4 z-1">
               <XIcon className="w-6 h-6" />
             </Dialog.Close>
@@ -186,16 +184,38 @@ function ZoomMedia({ media }: { media: MediaFragment }) {
       />
     );
   }
-  if (media.mediaContentType === "VIDEO") {
-    const mediaVideo = media as Media_Video_Fragment;
-    return (
-      <video controls className="h-auto md:h-full object-cover">
-        <track kind="captions" />
-        <source src={mediaVideo.sources[0].url} type="video/mp4" />
-      </video>
-    );
+  // Fit the viewport while keeping the media's own aspect ratio
+  const aspectRatio = getMediaAspectRatio(media, "adapt");
+  const className =
+    "w-[95vw]! max-h-screen-no-topbar md:w-auto! md:h-[85vh]! md:max-w-[80vw]";
+  switch (media.__typename) {
+    case "Video":
+      return (
+        <VideoMedia
+          media={media}
+          aspectRatio={aspectRatio}
+          className={className}
+        />
+      );
+    case "ExternalVideo":
+      return (
+        <ExternalVideoMedia
+          media={media}
+          aspectRatio={aspectRatio}
+          className={className}
+        />
+      );
+    case "Model3d":
+      return (
+        <ModelMedia
+          media={media}
+          aspectRatio={aspectRatio}
+          className={className}
+        />
+      );
+    default:
+      return null;
   }
-  return null;
 }
 
 function isVisibleInParent(child: HTMLElement, parent: HTMLElement) {
@@ -0,0 +1,180 @@
+import { useId, useState } from "react";
+import {
+  getPersonalizationAttributes,
+  type PersonalizationField,
+  parsePersonalizationFields,
+  validatePersonalization,
+} from "~/utils/product";
+
+type PersonalizationData = {
+  id?: string;
+  personalization?: { value: string } | null;
+};
+
+type PersonalizationState = {
+  productId?: string;
+  values: Record<string, string>;
+  // Errors are only shown once the shopper tried to add to cart
+  showErrors: boolean;
+};
+
+/**
+ * Keep track of the personalization values of a product (engraving, monogram...)
+ * The values start over when navigating to another product.
+ * @returns the fields, their values & errors, the cart line attributes and a
+ * `validate` function to call before adding to cart
+ */
+export function usePersonalization(product?: PersonalizationData | null) {
+  const fields = parsePersonalizationFields(product?.personalization?.value);
+  const [state, setState] = useState<PersonalizationState>({
+    productId: product?.id,
+    values: {},
+    showErrors: false,
+  });
+  const { values, showErrors } =
+    state.productId === product?.id ? state : { values: {}, showErrors: false };
+  const errors = validatePersonalization(fields, values);
+  const isValid = Object.keys(errors).length === 0;
+
+  return {
+    fields,
+    values,
+    errors: showErrors ? errors : {},
+    attributes: getPersonalizationAttributes(fields, values),
+    onChange: (label: string, value: string) =>
+      setState({
+        productId: product?.id,
+        values: { ...values, [label]: value },
+        showErrors,
+      }),
+    validate: () => {
+      setState({ productId: product?.id, values, showErrors: true });
+      return isValid;
+    },
+  };
+}
+
+/**
+ * Custom input fields of a product, defined by its `custom.personalization`
+ * metafield. Renders nothing if the product has no fields.
+ */
+export function PersonalizationFields({
+  fields,
+  values,
+  errors,
+  onChange,
+}: {
+  fields: PersonalizationField[];
+  values: Record<string, string>;
+  errors: Record<string, string>;
+  onChange: (label: string, value: string) => void;
+}) {
+  const id = useId();
+  if (!fields.length) {
+    return null;
+  }
+
+  return (
+    <fieldset className="space-y-4" data-test="personalization-fields">
+      <legend className="mb-2 font-medium">Personalization</legend>
+      {fields.map((field, idx) => (
+        <PersonalizationInput
+          key={field.label}
+          id={`${id}-${idx}`}
+          field={field}
+          value={values[field.label] || ""}
+          error={errors[field.label]}
+          onChange={(value) => onChange(field.label, value)}
+        />
+      ))}
+    </fieldset>
+  );
+}
+
+function PersonalizationInput({
+  id,
+  field,
+  value,
+  error,
+  onChange,
+}: {
+  id: string;
+  field: PersonalizationField;
+  value: string;
+  error?: string;
+  onChange: (value: string) => void;
+}) {
+  const { label, type, required, placeholder, maxLength, options, min, max } =
+    field;
+  const errorId = `${id}-error`;
+  const inputProps = {
+    id,
+    required,
+    "aria-invalid": Boolean(error),
+    "aria-describedby": error ? errorId : undefined,
+  };
+  const inputClass = "w-full p-2 border border-line rounded-none";
+
+  return (
+    <div className="space-y-1.5">
+      {type === "checkbox" ? (
+        <label htmlFor={id} className="flex items-center gap-2 cursor-pointer">
+          <input
+            {...inputProps}
+            type="checkbox"
+            checked={value === "true"}
+            onChange={(e) => onChange(e.currentTarget.checked ? "true" : "")}
+          />
+          {label}
+          {required && <span aria-hidden="true">*</span>}
+        </label>
+      ) : (
+        <>
+          <label htmlFor={id} className="flex justify-between gap-2">
+            <span>
+              {label}
+              {required && <span aria-hidden="true"> *</span>}
+            </span>
+            {type === "text" && maxLength ? (
+              <span className="text-sm text-body-subtle">
+                {value.length}/{maxLength}
+              </span>
+            ) : null}
+          </label>
+          {type === "select" ? (
+            <select
+              {...inputProps}
+              value={value}
+              onChange={(e) => onChange(e.currentTarget.value)}
+              className={inputClass}
+            >
+              <option value="">{placeholder || "Select an option"}</option>
+              {options?.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <input
+              {...inputProps}
+              type={type}
+              value={value}
+              placeholder={placeholder}
+              maxLength={type === "text" ? maxLength : undefined}
+              min={type === "date" ? min : undefined}
+              max={type === "date" ? max : undefined}
+              onChange={(e) => onChange(e.currentTarget.value)}
+              className={inputClass}
+            />
+          )}
+        </>
+      )}
+      {error && (
+        <p id={errorId} className="text-sm text-red-700">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
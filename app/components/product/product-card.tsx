@@ -14,8 +14,11 @@ import { NavLink } from "~/components/nav-link";
 import { VariantPrices } from "~/components/variant-prices";
 import { RevealUnderline } from "~/reveal-underline";
 import { getImageAspectRatio } from "~/utils/image";
+import { isPreorder } from "~/utils/product";
 import { BestSellerBadge, NewBadge, SaleBadge, SoldOutBadge } from "./badges";
+import { CompareCheckbox } from "./compare";
 import { ProductCardOptions } from "./product-card-options";
+import { WishlistButton } from "./wishlist-button";
 
 const styleVariants = cva("", {
   variants: {
@@ -61,6 +64,8 @@ export function ProductCard({
   const { minVariantPrice, maxVariantPrice } = priceRange;
 
   const firstVariant = product.selectedOrFirstAvailableVariant;
+  const variant = selectedVariant || firstVariant;
+  const preorder = isPreorder(variant);
   const params = new URLSearchParams(
     mapSelectedProductOptionToObject(
       (selectedVariant || firstVariant)?.selectedOptions || [],
@@ -143,8 +148,16 @@ export function ProductCard({
             <BestSellerBadge />
           )}
           {pcardShowNewBadges && <NewBadge publishedAt={product.publishedAt} />}
-          {pcardShowOutOfStockBadges && <SoldOutBadge />}
+          {pcardShowOutOfStockBadges &&
+            (preorder || !variant?.availableForSale) && (
+              <SoldOutBadge preorder={preorder} />
+            )}
         </div>
+        <WishlistButton
+          productId={product.id}
+          productTitle={product.title}
+          className="absolute top-1.5 left-1.5"
+        />
         {/* <QuickShopTrigger productHandle={product.handle} /> */}
       </div>
       <div
@@ -193,6 +206,14 @@ export function ProductCard({
           selectedVariant={selectedVariant}
           setSelectedVariant={setSelectedVariant}
         />
+        <CompareCheckbox
+          item={{
+            handle: product.handle,
+            title: product.title,
+            imageUrl: images.nodes[0]?.url,
+          }}
+          className="text-body-subtle"
+        />
       </div>
     </div>
   );
@@ -2,14 +2,12 @@ import {
   ArrowLeftIcon,
   ArrowRightIcon,
   MagnifyingGlassPlusIcon,
-  VideoCameraIcon,
 } from "@phosphor-icons/react";
 import { cva, type VariantProps } from "class-variance-authority";
 import clsx from "clsx";
 import { useEffect, useState } from "react";
 import type {
   Media_MediaImage_Fragment,
-  Media_Video_Fragment,
   MediaFragment,
   ProductVariantFragment,
 } from "storefront-api.generated";
@@ -19,6 +17,18 @@ import { Image } from "~/components/image";
 import type { ImageAspectRatio } from "~/types/image";
 import { cn } from "~/utils/cn";
 import { getImageAspectRatio } from "~/utils/image";
+import {
+  filterMediaByVariant,
+  type MediaFilter,
+  stripMediaOptionTags,
+} from "~/utils/media";
+import {
+  ExternalVideoMedia,
+  getMediaAspectRatio,
+  MediaTypeBadge,
+  ModelMedia,
+  VideoMedia,
+} from "./media-embeds";
 import { ZoomModal } from "./media-zoom";
 
 const variants = cva(
@@ -44,9 +54,13 @@ export interface ProductMediaProps extends VariantProps<typeof variants> {
   mediaLayout: "grid" | "slider";
   imageAspectRatio: ImageAspectRatio;
   showThumbnails: boolean;
-  selectedVariant: ProductVariantFragment;
+  selectedVariant: ProductVariantFragment & {
+    variantMedia?: { value: string } | null;
+  };
   media: MediaFragment[];
   enableZoom?: boolean;
+  /** Only show the media of the selected variant */
+  mediaFilter?: MediaFilter;
 }
 
 export function ProductMedia(props: ProductMediaProps) {
@@ -56,9 +70,14 @@ export function ProductMedia(props: ProductMediaProps) {
     showThumbnails,
     imageAspectRatio,
     selectedVariant,
-    media,
     enableZoom,
+    mediaFilter,
   } = props;
+  const media = filterMediaByVariant(
+    props.media,
+    mediaFilter,
+    selectedVariant,
+  ).map((med) => ({ ...med, alt: stripMediaOptionTags(med.alt) || null }));
 
   const [swiper, setSwiper] = useState<SwiperClass | null>(null);
   const [thumbsSwiper, setThumbsSwiper] = useState<SwiperClass | null>(null);
@@ -68,7 +87,10 @@ export function ProductMedia(props: ProductMediaProps) {
   // biome-ignore lint/correctness/useExhaustiveDependencies: <explanation> --- IGNORE ---
   useEffect(() => {
     if (selectedVariant && swiper) {
-      const index = getSelectedVariantMediaIndex(media, selectedVariant);
+      const index = Math.max(
+        getSelectedVariantMediaIndex(media, selectedVariant),
+        0,
+      );
       if (index !== swiper.activeIndex) {
         swiper.slideTo(index);
       }
@@ -79,6 +101,21 @@ export function ProductMedia(props: ProductMediaProps) {
     return (
       <div className={variants({ gridSize })}>
         {media.map((med, idx) => {
+          const className = clsx(
+            "object-cover w-[80vw] max-w-none lg:w-full lg:h-full",
+            gridSize === "mix" && idx % 3 === 0 && "lg:col-span-2",
+          );
+          if (med.mediaContentType !== "IMAGE") {
+            return (
+              <div key={med.id} className={className}>
+                <Media
+                  media={med}
+                  imageAspectRatio={imageAspectRatio}
+                  index={idx}
+                />
+              </div>
+            );
+          }
           const image = {
             ...med.previewImage,
             altText: med.alt || "Product image",
@@ -90,10 +127,7 @@ export function ProductMedia(props: ProductMediaProps) {
               loading={idx === 0 ? "eager" : "lazy"}
               width={1660}
               aspectRatio={getImageAspectRatio(image, imageAspectRatio)}
-              className={clsx(
-                "object-cover w-[80vw] max-w-none lg:w-full lg:h-full",
-                gridSize === "mix" && idx % 3 === 0 && "lg:col-span-2",
-              )}
+              className={className}
               sizes="auto"
             />
           );
@@ -153,11 +187,7 @@ export function ProductMedia(props: ProductMediaProps) {
                       className="object-cover w-full h-auto"
                       sizes="auto"
                     />
-                    {mediaContentType === "VIDEO" && (
-                      <div className="absolute bottom-2 right-2 bg-gray-900 text-white p-0.5">
-                        <VideoCameraIcon className="w-4 h-4" />
-                      </div>
-                    )}
+                    <MediaTypeBadge mediaContentType={mediaContentType} />
                   </SwiperSlide>
                 );
               })}
@@ -182,27 +212,32 @@ export function ProductMedia(props: ProductMediaProps) {
           >
             {media.map((media, idx) => (
               <SwiperSlide key={media.id} className="bg-gray-100">
-                <Media
-                  media={media}
-                  imageAspectRatio={imageAspectRatio}
-                  index={idx}
-                />
-                {enableZoom && (
-                  <button
-                    type="button"
-                    className={clsx(
-                      "absolute top-2 right-2 md:right-6 md:top-6",
-                      "p-2 text-center border border-transparent rounded-full",
-                      "transition-all duration-200",
-                      "text-gray-900 bg-white hover:bg-gray-800 hover:text-white",
+                {({ isActive }) => (
+                  <>
+                    <Media
+                      media={media}
+                      imageAspectRatio={imageAspectRatio}
+                      index={idx}
+                      isActive={isActive}
+                    />
+                    {enableZoom && (
+                      <button
+                        type="button"
+                        className={clsx(
+                          "absolute top-2 right-2 md:right-6 md:top-6",
+                          "p-2 text-center border border-transparent rounded-full",
+                          "transition-all duration-200",
+                          "text-gray-900 bg-white hover:bg-gray-800 hover:text-white",
+                        )}
+                        onClick={() => {
+                          setZoomMediaId(media.id);
+                          setZoomModalOpen(true);
+                        }}
+                      >
+                        <MagnifyingGlassPlusIcon className="w-5 h-5" />
+                      </button>
                     )}
-                    onClick={() => {
-                      setZoomMediaId(media.id);
-                      setZoomModalOpen(true);
-                    }}
-                  >
-                    <MagnifyingGlassPlusIcon className="w-5 h-5" />
-                  </button>
+                  </>
                 )}
               </SwiperSlide>
             ))}
@@ -240,10 +275,12 @@ function Media({
   media,
   imageAspectRatio,
   index,
+  isActive,
 }: {
   media: MediaFragment;
   imageAspectRatio: ImageAspectRatio;
   index: number;
+  isActive?: boolean;
 }) {
   if (media.mediaContentType === "IMAGE") {
     const { image, alt } = media as Media_MediaImage_Fragment;
@@ -258,28 +295,36 @@ function Media({
       />
     );
   }
-  if (media.mediaContentType === "VIDEO") {
-    const mediaVideo = media as Media_Video_Fragment;
-    return (
-      <video
-        controls
-        aria-label={mediaVideo.alt || "Product video"}
-        className="w-full h-auto object-cover"
-        style={{ aspectRatio: imageAspectRatio }}
-        onError={console.error}
-      >
-        <track
-          kind="captions"
-          src={mediaVideo.sources[0].url}
-          label="English"
-          srcLang="en"
-          default
+  const aspectRatio = getMediaAspectRatio(media, imageAspectRatio);
+  switch (media.__typename) {
+    case "Video":
+      return (
+        <VideoMedia
+          media={media}
+          aspectRatio={aspectRatio}
+          isActive={isActive}
         />
-        <source src={mediaVideo.sources[0].url} type="video/mp4" />
-      </video>
-    );
+      );
+    case "ExternalVideo":
+      return (
+        <ExternalVideoMedia
+          media={media}
+          aspectRatio={aspectRatio}
+          isActive={isActive}
+        />
+      );
+    case "Model3d":
+      // Rotating the model must not swipe the slider
+      return (
+        <ModelMedia
+          media={media}
+          aspectRatio={aspectRatio}
+          className="swiper-no-swiping"
+        />
+      );
+    default:
+      return null;
   }
-  return null;
 }
 
 function getSelectedVariantMediaIndex(
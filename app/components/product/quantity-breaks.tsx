@@ -0,0 +1,79 @@
+import { Money } from "@shopify/hydrogen";
+import type { MoneyV2 } from "@shopify/hydrogen/storefront-api-types";
+import clsx from "clsx";
+import { useId } from "react";
+import {
+  getQuantityBreak,
+  getQuantityBreakPrice,
+  type QuantityBreak,
+} from "~/utils/product";
+
+/**
+ * Selectable table of the quantity break tiers, picking a tier sets the
+ * quantity to the tier's minimum. Renders nothing if there are no tiers.
+ */
+export function QuantityBreaks({
+  tiers,
+  price,
+  quantity,
+  onChange,
+}: {
+  tiers: QuantityBreak[];
+  price: Pick<MoneyV2, "amount" | "currencyCode">;
+  quantity: number;
+  onChange: (quantity: number) => void;
+}) {
+  const name = useId();
+  if (!tiers.length) {
+    return null;
+  }
+
+  const selectedTier = getQuantityBreak(tiers, quantity);
+  const rows: { quantity: number; tier: QuantityBreak | null }[] = [
+    { quantity: 1, tier: null },
+    ...tiers.map((tier) => ({ quantity: tier.quantity, tier })),
+  ];
+
+  return (
+    <fieldset className="space-y-1.5" data-test="quantity-breaks">
+      <legend className="mb-1.5 font-bold leading-tight">
+        Buy more, save more
+      </legend>
+      {rows.map(({ quantity: tierQuantity, tier }) => {
+        const checked = tier === selectedTier;
+        return (
+          <label
+            key={tierQuantity}
+            className={clsx(
+              "flex items-center justify-between gap-3 p-3 border cursor-pointer",
+              checked ? "border-body" : "border-line-subtle",
+            )}
+          >
+            <span className="flex items-center gap-2">
+              <input
+                type="radio"
+                name={name}
+                checked={checked}
+                onChange={() => onChange(tierQuantity)}
+              />
+              {tier ? `${tierQuantity}+ items` : "1 item"}
+              {tier && (
+                <span className="px-1.5 py-0.5 text-sm bg-body text-background">
+                  Save {tier.percentage}%
+                </span>
+              )}
+            </span>
+            <span className="flex items-center gap-1">
+              <Money
+                as="span"
+                withoutTrailingZeros
+                data={getQuantityBreakPrice(price, tier) as MoneyV2}
+              />
+              <span className="text-sm text-body-subtle">/ each</span>
+            </span>
+          </label>
+        );
+      })}
+    </fieldset>
+  );
+}
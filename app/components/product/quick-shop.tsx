@@ -12,8 +12,17 @@ import type { ProductQuery } from "storefront-api.generated";
 import { Button } from "~/components/button";
 import { Modal, ModalContent, ModalTrigger } from "~/components/modal";
 import { AddToCartButton } from "~/components/product/add-to-cart-button";
+import { BackInStockForm } from "~/components/product/back-in-stock-form";
+import {
+  PersonalizationFields,
+  usePersonalization,
+} from "~/components/product/personalization-fields";
 import { ProductMedia } from "~/components/product/product-media";
 import { Quantity } from "~/components/product/quantity";
+import {
+  SellingPlanSelector,
+  useSellingPlan,
+} from "~/components/product/selling-plan-selector";
 import { Skeleton } from "~/components/skeleton";
 import { VariantPrices } from "~/components/variant-prices";
 import type { ProductData } from "~/routes/($locale).api.product";
@@ -40,6 +49,8 @@ export function QuickShop({ data }: { data: QuickViewData }) {
   });
 
   const [quantity, setQuantity] = useState<number>(1);
+  const [sellingPlan, setSellingPlanId] = useSellingPlan(product);
+  const personalization = usePersonalization(product);
   const {
     addToCartText,
     soldOutText,
@@ -80,7 +91,10 @@ export function QuickShop({ data }: { data: QuickViewData }) {
             <div className="flex flex-col gap-2">
               <h5>{title}</h5>
             </div>
-            <VariantPrices variant={selectedVariant as ProductVariant} />
+            <VariantPrices
+              variant={selectedVariant as ProductVariant}
+              sellingPlan={sellingPlan}
+            />
             {/* <ProductVariants
               product={product}
               options={product?.options}
@@ -95,23 +109,47 @@ export function QuickShop({ data }: { data: QuickViewData }) {
               hideUnavailableOptions={hideUnavailableOptions}
             /> */}
           </div>
+          {selectedVariant && (
+            <SellingPlanSelector
+              product={product}
+              price={selectedVariant.price}
+              selectedPlan={sellingPlan}
+              onChange={setSellingPlanId}
+            />
+          )}
+          <PersonalizationFields
+            fields={personalization.fields}
+            values={personalization.values}
+            errors={personalization.errors}
+            onChange={personalization.onChange}
+          />
           <Quantity value={quantity} onChange={setQuantity} />
           {/* TODO: fix quick-shop modal & cart drawer overlap each other */}
-          <AddToCartButton
-            disabled={!selectedVariant?.availableForSale}
-            lines={[
-              {
-                merchandiseId: selectedVariant?.id,
-                quantity,
-                selectedVariant,
-              },
-            ]}
-            data-test="add-to-cart"
-            className="w-full"
-          >
-            {atcText}
-          </AddToCartButton>
-          {selectedVariant?.availableForSale && (
+          {selectedVariant && !selectedVariant.availableForSale ? (
+            <BackInStockForm
+              variantId={selectedVariant.id}
+              soldOutText={atcText}
+            />
+          ) : (
+            <AddToCartButton
+              disabled={!selectedVariant?.availableForSale}
+              lines={[
+                {
+                  merchandiseId: selectedVariant?.id,
+                  quantity,
+                  selectedVariant,
+                  sellingPlanId: sellingPlan?.id,
+                  attributes: personalization.attributes,
+                },
+              ]}
+              validate={personalization.validate}
+              data-test="add-to-cart"
+              className="w-full"
+            >
+              {atcText}
+            </AddToCartButton>
+          )}
+          {selectedVariant?.availableForSale && !sellingPlan && (
             <ShopPayButton
               width="100%"
               variantIdsAndQuantities={[
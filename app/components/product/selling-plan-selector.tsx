@@ -0,0 +1,163 @@
+import { Money } from "@shopify/hydrogen";
+import type { MoneyV2 } from "@shopify/hydrogen/storefront-api-types";
+import clsx from "clsx";
+import { useId, useState } from "react";
+import type { SellingPlanGroupFragment } from "storefront-api.generated";
+import { getSellingPlanPrice, type SellingPlan } from "~/utils/product";
+
+type SellingPlansData = {
+  id?: string;
+  requiresSellingPlan?: boolean;
+  sellingPlanGroups?: { nodes: SellingPlanGroupFragment[] };
+};
+
+/**
+ * Keep track of the selected selling plan of a product.
+ * Products that can only be sold with a selling plan start with the first plan.
+ * The selection starts over when navigating to another product.
+ * @returns the selected plan (`null` for a one-time purchase) and its setter
+ */
+export function useSellingPlan(product?: SellingPlansData | null) {
+  const sellingPlans = getSellingPlans(product);
+  const defaultPlanId = product?.requiresSellingPlan
+    ? (sellingPlans[0]?.id ?? null)
+    : null;
+  const [selected, setSelected] = useState({
+    productId: product?.id,
+    sellingPlanId: defaultPlanId,
+  });
+  const sellingPlanId =
+    selected.productId === product?.id ? selected.sellingPlanId : defaultPlanId;
+  const sellingPlan =
+    sellingPlans.find(({ id }) => id === sellingPlanId) ?? null;
+  const setSellingPlanId = (id: string | null) =>
+    setSelected({ productId: product?.id, sellingPlanId: id });
+  return [sellingPlan, setSellingPlanId] as const;
+}
+
+function getSellingPlans(product?: SellingPlansData | null) {
+  return (
+    product?.sellingPlanGroups?.nodes.flatMap(
+      ({ sellingPlans }) => sellingPlans.nodes,
+    ) ?? []
+  );
+}
+
+/**
+ * One-time purchase / subscription toggle with the delivery frequencies of
+ * the product's selling plans. Renders nothing if the product has no plans.
+ */
+export function SellingPlanSelector({
+  product,
+  price,
+  selectedPlan,
+  onChange,
+}: {
+  product: SellingPlansData;
+  price: Pick<MoneyV2, "amount" | "currencyCode">;
+  selectedPlan: SellingPlan | null;
+  onChange: (sellingPlanId: string | null) => void;
+}) {
+  const id = useId();
+  const sellingPlans = getSellingPlans(product);
+  if (!sellingPlans.length) {
+    return null;
+  }
+
+  const isSubscription = Boolean(selectedPlan);
+  const plan = selectedPlan || sellingPlans[0];
+  const savings = getSavingsPercentage(price, plan);
+
+  return (
+    <fieldset className="space-y-3" data-test="selling-plan-selector">
+      <legend className="mb-2 font-medium">Purchase options</legend>
+      {!product.requiresSellingPlan && (
+        <PurchaseOption
+          name={id}
+          checked={!isSubscription}
+          onSelect={() => onChange(null)}
+          label="One-time purchase"
+          price={price}
+        />
+      )}
+      <PurchaseOption
+        name={id}
+        checked={isSubscription}
+        onSelect={() => onChange(plan.id)}
+        label={savings > 0 ? `Subscribe & save ${savings}%` : "Subscribe"}
+        price={getSellingPlanPrice(price, plan)}
+      >
+        {isSubscription && (
+          <div className="space-y-2 pt-3">
+            {sellingPlans.length > 1 && (
+              <select
+                aria-label="Delivery frequency"
+                value={plan.id}
+                onChange={(e) => onChange(e.currentTarget.value)}
+                className="w-full p-2 border border-line rounded-none"
+              >
+                {sellingPlans.map(({ id, name }) => (
+                  <option key={id} value={id}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+            )}
+            {plan.description && (
+              <p className="text-sm text-body-subtle">{plan.description}</p>
+            )}
+          </div>
+        )}
+      </PurchaseOption>
+    </fieldset>
+  );
+}
+
+function PurchaseOption({
+  name,
+  checked,
+  onSelect,
+  label,
+  price,
+  children,
+}: {
+  name: string;
+  checked: boolean;
+  onSelect: () => void;
+  label: string;
+  price: Pick<MoneyV2, "amount" | "currencyCode">;
+  children?: React.ReactNode;
+}) {
+  return (
+    <div
+      className={clsx(
+        "p-3 border",
+        checked ? "border-body" : "border-line-subtle",
+      )}
+    >
+      <label className="flex items-center justify-between gap-3 cursor-pointer">
+        <span className="flex items-center gap-2">
+          <input
+            type="radio"
+            name={name}
+            checked={checked}
+            onChange={onSelect}
+          />
+          {label}
+        </span>
+        <Money withoutTrailingZeros data={price as MoneyV2} />
+      </label>
+      {children}
+    </div>
+  );
+}
+
+function getSavingsPercentage(
+  price: Pick<MoneyV2, "amount" | "currencyCode">,
+  plan: SellingPlan,
+) {
+  const amount = Number(price.amount);
+  if (!amount) return 0;
+  const planAmount = Number(getSellingPlanPrice(price, plan).amount);
+  return Math.round(((amount - planAmount) / amount) * 100);
+}
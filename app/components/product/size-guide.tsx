@@ -0,0 +1,87 @@
+import { RulerIcon } from "@phosphor-icons/react";
+import clsx from "clsx";
+import { useState } from "react";
+import { Modal, ModalContent, ModalTrigger } from "~/components/modal";
+import {
+  convertSizeChartValue,
+  type SizeChart,
+  type SizeChartUnit,
+} from "~/utils/size-chart";
+
+const UNITS: SizeChartUnit[] = ["cm", "in"];
+
+/**
+ * "Size guide" link opening the size chart table, the measurements can be
+ * switched between centimeters and inches
+ */
+export function SizeGuide({ chart }: { chart: SizeChart }) {
+  const [unit, setUnit] = useState<SizeChartUnit>(chart.unit);
+  const { title, description, headers, rows } = chart;
+
+  return (
+    <Modal>
+      <ModalTrigger>
+        <button
+          type="button"
+          className="flex items-center gap-1 text-sm underline underline-offset-4"
+          data-test="size-guide"
+        >
+          <RulerIcon className="w-4 h-4" />
+          Size guide
+        </button>
+      </ModalTrigger>
+      <ModalContent aria-describedby={undefined}>
+        <div className="space-y-5">
+          <div className="flex items-center justify-between gap-4 pr-6">
+            <h3 className="text-xl font-bold">{title}</h3>
+            <fieldset className="flex border border-line-subtle">
+              <legend className="sr-only">Unit</legend>
+              {UNITS.map((u) => (
+                <button
+                  key={u}
+                  type="button"
+                  aria-pressed={unit === u}
+                  onClick={() => setUnit(u)}
+                  className={clsx(
+                    "px-3 py-1 text-sm",
+                    unit === u && "bg-body text-background",
+                  )}
+                >
+                  {u}
+                </button>
+              ))}
+            </fieldset>
+          </div>
+          {description && <p className="text-body-subtle">{description}</p>}
+          <div className="overflow-x-auto">
+            <table className="w-full text-left border-collapse">
+              <thead>
+                <tr className="border-b border-line-subtle">
+                  {headers.map((header, idx) => (
+                    <th key={idx} scope="col" className="p-3 font-bold">
+                      {header}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(([size, ...measurements], rowIdx) => (
+                  <tr key={rowIdx} className="border-b border-line-subtle">
+                    <th scope="row" className="p-3 font-bold">
+                      {size}
+                    </th>
+                    {measurements.map((value, idx) => (
+                      <td key={idx} className="p-3">
+                        {convertSizeChartValue(value, chart.unit, unit)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </ModalContent>
+    </Modal>
+  );
+}
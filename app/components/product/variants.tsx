@@ -1,10 +1,21 @@
 import type { MappedProductOptions } from "@shopify/hydrogen";
+import { Suspense } from "react";
+import { Await } from "react-router";
+import type { SizeChartFragment } from "storefront-api.generated";
+import { parseSizeChart } from "~/utils/size-chart";
 import { ProductOptionValues } from "./product-option-values";
+import { SizeGuide } from "./size-guide";
 
 export function ProductVariants({
   productOptions,
+  sizeChart,
+  sizeGuideOption,
 }: {
   productOptions: MappedProductOptions[];
+  /** Streamed from the product route loader */
+  sizeChart?: Promise<SizeChartFragment | null>;
+  /** Name of the option showing the size guide link, e.g. `Size` */
+  sizeGuideOption?: string;
 }) {
   // Check if this is a default variant only product
   if (productOptions.length === 1) {
@@ -22,8 +33,20 @@ export function ProductVariants({
       <div className="product-form space-y-5">
         {productOptions.map((option) => (
           <div className="product-options space-y-2" key={option.name}>
-            <legend className="leading-tight">
+            <legend className="flex w-full items-center justify-between gap-2 leading-tight">
               <span className="font-bold">{option.name}</span>
+              {sizeChart &&
+                option.name.toLowerCase() ===
+                  sizeGuideOption?.trim().toLowerCase() && (
+                  <Suspense fallback={null}>
+                    <Await resolve={sizeChart} errorElement={null}>
+                      {(metaobject) => {
+                        const chart = parseSizeChart(metaobject);
+                        return chart && <SizeGuide chart={chart} />;
+                      }}
+                    </Await>
+                  </Suspense>
+                )}
             </legend>
             <ProductOptionValues option={option} />
           </div>
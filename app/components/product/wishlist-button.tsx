@@ -0,0 +1,79 @@
+import { HeartIcon } from "@phosphor-icons/react";
+import clsx from "clsx";
+import { useFetcher } from "react-router";
+import { usePrefixPathWithLocale } from "~/hooks/use-prefix-path-with-locale";
+import { useWishlistProductIds } from "~/hooks/use-wishlist";
+import type { WishlistIntent } from "~/routes/($locale).api.wishlist";
+
+/**
+ * Heart toggle to add or remove a product from the wishlist.
+ * The wishlisted product ids are loaded by the root layout, then revalidated
+ * after each toggle.
+ */
+export function WishlistButton({
+  productId,
+  productTitle,
+  className,
+}: {
+  productId: string;
+  productTitle: string;
+  className?: string;
+}) {
+  const productIds = useWishlistProductIds();
+
+  return (
+    <WishlistToggle
+      productId={productId}
+      productTitle={productTitle}
+      className={className}
+      isWishlisted={Boolean(productIds?.includes(productId))}
+    />
+  );
+}
+
+function WishlistToggle({
+  productId,
+  productTitle,
+  className,
+  isWishlisted,
+}: {
+  productId: string;
+  productTitle: string;
+  className?: string;
+  isWishlisted: boolean;
+}) {
+  // Share the fetcher so all the toggles of a product stay in sync
+  const fetcher = useFetcher({ key: `wishlist-${productId}` });
+  const pendingIntent = fetcher.formData?.get("intent") as WishlistIntent;
+  const active = pendingIntent ? pendingIntent === "add" : isWishlisted;
+  const intent: WishlistIntent = active ? "remove" : "add";
+
+  return (
+    <fetcher.Form
+      method="post"
+      action={usePrefixPathWithLocale("/api/wishlist")}
+      className={className}
+    >
+      <input type="hidden" name="productId" value={productId} />
+      <button
+        type="submit"
+        name="intent"
+        value={intent}
+        aria-pressed={active}
+        aria-label={
+          active
+            ? `Remove ${productTitle} from wishlist`
+            : `Add ${productTitle} to wishlist`
+        }
+        className="flex items-center justify-center w-8 h-8"
+        data-test="wishlist-toggle"
+      >
+        <HeartIcon
+          aria-hidden="true"
+          className={clsx("w-5 h-5", active && "text-red-600")}
+          weight={active ? "fill" : "regular"}
+        />
+      </button>
+    </fetcher.Form>
+  );
+}
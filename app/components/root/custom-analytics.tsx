@@ -9,6 +9,7 @@ import {
 } from "@shopify/hydrogen";
 import { useEffect } from "react";
 import { useRouteLoaderData } from "react-router";
+import { addRecentlyViewed } from "~/hooks/use-recently-viewed";
 import type { RootLoader } from "~/root";
 
 export function CustomAnalytics() {
@@ -43,6 +44,10 @@ export function CustomAnalytics() {
         product_url: data.products?.[0]?.url,
       };
       window.dataLayer?.push(dataToSentToGTM);
+      const productId = data.products?.[0]?.id;
+      if (productId && canTrack()) {
+        addRecentlyViewed(productId);
+      }
     });
     subscribe(AnalyticsEvent.COLLECTION_VIEWED, (data) => {
       console.log("CustomAnalytics - Collection viewed:", data);
@@ -0,0 +1,218 @@
+import { Pagination } from "@shopify/hydrogen";
+import type { PageInfo } from "@shopify/hydrogen/storefront-api-types";
+import clsx from "clsx";
+import type { ReactNode } from "react";
+import type {
+  SearchArticleFragment,
+  SearchCollectionFragment,
+  SearchPageFragment,
+} from "storefront-api.generated";
+import { Image } from "~/components/image";
+import Link from "~/components/link";
+import { RevealUnderline } from "~/reveal-underline";
+
+export type SearchTab = "products" | "collections" | "articles" | "pages";
+
+export const SEARCH_TABS: { type: SearchTab; label: string }[] = [
+  { type: "products", label: "Products" },
+  { type: "collections", label: "Collections" },
+  { type: "articles", label: "Articles" },
+  { type: "pages", label: "Pages" },
+];
+
+export function getSearchTab(param?: string | null): SearchTab {
+  return SEARCH_TABS.find(({ type }) => type === param)?.type || "products";
+}
+
+type ResultsConnection<T> = {
+  nodes: T[];
+  pageInfo: Pick<
+    PageInfo,
+    "hasNextPage" | "hasPreviousPage" | "startCursor" | "endCursor"
+  >;
+};
+
+/**
+ * Result groups of the search page with their counts, switching tab resets
+ * the filters, sort and pagination
+ */
+export function SearchTabs({
+  searchTerm,
+  activeTab,
+  counts,
+}: {
+  searchTerm: string;
+  activeTab: SearchTab;
+  counts: Record<SearchTab, number>;
+}) {
+  return (
+    <nav aria-label="Search results" className="border-b border-line-subtle">
+      <ul className="flex gap-6 overflow-x-auto">
+        {SEARCH_TABS.map(({ type, label }) => {
+          const params = new URLSearchParams({ q: searchTerm, type });
+          const isActive = type === activeTab;
+          return (
+            <li key={type}>
+              <Link
+                to={`/search?${params.toString()}`}
+                aria-current={isActive ? "page" : undefined}
+                className={clsx(
+                  "flex items-center gap-1.5 pb-3 border-b-2 -mb-px whitespace-nowrap",
+                  isActive
+                    ? "border-line font-bold"
+                    : "border-transparent text-body-subtle",
+                )}
+                preventScrollReset
+              >
+                {label}
+                <span className="text-sm">({counts[type]})</span>
+              </Link>
+            </li>
+          );
+        })}
+      </ul>
+    </nav>
+  );
+}
+
+function PaginatedResults<T extends { id: string }>({
+  connection,
+  emptyText,
+  className,
+  children,
+}: {
+  connection: ResultsConnection<T>;
+  emptyText: string;
+  className: string;
+  children: (node: T) => ReactNode;
+}) {
+  if (!connection.nodes.length) {
+    return <div className="flex text-lg justify-center my-10">{emptyText}</div>;
+  }
+  return (
+    <Pagination connection={connection}>
+      {({
+        nodes,
+        isLoading,
+        nextPageUrl,
+        hasNextPage,
+        previousPageUrl,
+        hasPreviousPage,
+      }) => (
+        <div className="flex w-full flex-col gap-8 items-center">
+          {hasPreviousPage && (
+            <Link to={previousPageUrl} variant="outline" className="mx-auto">
+              {isLoading ? "Loading..." : "Previous"}
+            </Link>
+          )}
+          <ul className={clsx("w-full", className)}>
+            {nodes.map((node) => (
+              <li key={node.id}>{children(node)}</li>
+            ))}
+          </ul>
+          {hasNextPage && (
+            <Link to={nextPageUrl} variant="outline" className="mx-auto">
+              {isLoading ? "Loading..." : "Next"}
+            </Link>
+          )}
+        </div>
+      )}
+    </Pagination>
+  );
+}
+
+export function CollectionResults({
+  collections,
+}: {
+  collections: ResultsConnection<SearchCollectionFragment>;
+}) {
+  return (
+    <PaginatedResults
+      connection={collections}
+      emptyText="No collections found."
+      className="grid grid-cols-2 lg:grid-cols-4 gap-x-4 gap-y-8"
+    >
+      {({ handle, title, image }) => (
+        <Link to={`/collections/${handle}`} className="flex flex-col gap-3">
+          <div className="aspect-square bg-gray-100 overflow-hidden">
+            {image && (
+              <Image
+                data={image}
+                width={600}
+                aspectRatio="1/1"
+                sizes="(min-width: 64em) 25vw, 50vw"
+              />
+            )}
+          </div>
+          <RevealUnderline>{title}</RevealUnderline>
+        </Link>
+      )}
+    </PaginatedResults>
+  );
+}
+
+export function ArticleResults({
+  articles,
+}: {
+  articles: ResultsConnection<SearchArticleFragment>;
+}) {
+  return (
+    <PaginatedResults
+      connection={articles}
+      emptyText="No articles found."
+      className="grid grid-cols-1 lg:grid-cols-3 gap-x-4 gap-y-10"
+    >
+      {({ handle, title, excerpt, image, blog }) => {
+        const url = `/blogs/${blog.handle}/${handle}`;
+        return (
+          <div className="flex flex-col gap-4">
+            {image && (
+              <Link to={url}>
+                <Image
+                  data={image}
+                  alt={image.altText || title}
+                  width={800}
+                  aspectRatio="3/2"
+                  sizes="(min-width: 64em) 33vw, 100vw"
+                />
+              </Link>
+            )}
+            <Link to={url} className="inline-block">
+              <RevealUnderline className="text-xl leading-6">
+                {title}
+              </RevealUnderline>
+            </Link>
+            {excerpt && (
+              <p className="line-clamp-3 text-body-subtle">{excerpt}</p>
+            )}
+          </div>
+        );
+      }}
+    </PaginatedResults>
+  );
+}
+
+export function PageResults({
+  pages,
+}: {
+  pages: ResultsConnection<SearchPageFragment>;
+}) {
+  return (
+    <PaginatedResults
+      connection={pages}
+      emptyText="No pages found."
+      className="divide-y divide-line-subtle"
+    >
+      {({ handle, title, bodySummary }) => (
+        <div className="py-5 space-y-2">
+          <Link to={`/pages/${handle}`} className="inline-block">
+            <RevealUnderline className="text-lg">{title}</RevealUnderline>
+          </Link>
+          {bodySummary && (
+            <p className="line-clamp-2 text-body-subtle">{bodySummary}</p>
+          )}
+        </div>
+      )}
+    </PaginatedResults>
+  );
+}
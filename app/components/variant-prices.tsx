@@ -2,20 +2,30 @@ import { Money } from "@shopify/hydrogen";
 import type { MoneyV2 } from "@shopify/hydrogen/storefront-api-types";
 import clsx from "clsx";
 import type { ProductVariantFragment } from "storefront-api.generated";
-import { isDiscounted } from "~/utils/product";
+import {
+  getSellingPlanPrice,
+  isDiscounted,
+  type SellingPlan,
+} from "~/utils/product";
 import { CompareAtPrice } from "./compare-at-price";
 
 export function VariantPrices({
   variant,
+  sellingPlan,
   showCompareAtPrice = true,
   className,
 }: {
   variant: ProductVariantFragment;
+  sellingPlan?: SellingPlan | null;
   showCompareAtPrice?: boolean;
   className?: string;
 }) {
   if (variant) {
-    const { price, compareAtPrice } = variant;
+    // With a selling plan, the regular price becomes the compare at price
+    const price = sellingPlan
+      ? getSellingPlanPrice(variant.price, sellingPlan)
+      : variant.price;
+    const compareAtPrice = sellingPlan ? variant.price : variant.compareAtPrice;
     return (
       <div className={clsx("flex gap-2", className)}>
         <Money withoutTrailingZeros data={price} />
@@ -0,0 +1,31 @@
+// NOTE: these operations target the Customer Account API,
+// not the Storefront API, see `codegen.ts`.
+// https://shopify.dev/docs/api/customer/latest/objects/Customer#field-metafield
+
+export const CUSTOMER_METAFIELD_QUERY = `#graphql
+  query CustomerMetafield($namespace: String!, $key: String!) {
+    customer {
+      id
+      metafield(namespace: $namespace, key: $key) {
+        value
+      }
+    }
+  }
+` as const;
+
+export const CUSTOMER_METAFIELDS_SET_MUTATION = `#graphql
+  mutation CustomerMetafieldsSet($metafields: [MetafieldsSetInput!]!) {
+    metafieldsSet(metafields: $metafields) {
+      metafields {
+        key
+        namespace
+        value
+      }
+      userErrors {
+        code
+        field
+        message
+      }
+    }
+  }
+` as const;
@@ -3,6 +3,10 @@ export const PRODUCT_VARIANT_FRAGMENT = `#graphql
     id
     availableForSale
     quantityAvailable
+    currentlyNotInStock
+    preorderDate: metafield(namespace: "custom", key: "preorder_date") {
+      value
+    }
     selectedOptions {
       name
       value
@@ -57,6 +61,49 @@ export const PRODUCT_OPTION_FRAGMENT = `#graphql
   ${PRODUCT_VARIANT_FRAGMENT}
 ` as const;
 
+export const SELLING_PLAN_GROUP_FRAGMENT = `#graphql
+  fragment SellingPlanGroup on SellingPlanGroup {
+    name
+    options {
+      name
+      values
+    }
+    sellingPlans(first: 10) {
+      nodes {
+        id
+        name
+        description
+        recurringDeliveries
+        options {
+          name
+          value
+        }
+        priceAdjustments {
+          orderCount
+          adjustmentValue {
+            __typename
+            ... on SellingPlanPercentagePriceAdjustment {
+              adjustmentPercentage
+            }
+            ... on SellingPlanFixedAmountPriceAdjustment {
+              adjustmentAmount {
+                amount
+                currencyCode
+              }
+            }
+            ... on SellingPlanFixedPriceAdjustment {
+              price {
+                amount
+                currencyCode
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+` as const;
+
 export const PRODUCT_CARD_FRAGMENT = `#graphql
   fragment ProductCard on Product {
     id
@@ -130,6 +177,8 @@ export const MEDIA_FRAGMENT = `#graphql
       sources {
         mimeType
         url
+        width
+        height
       }
     }
     ... on Model3d {
@@ -146,3 +195,22 @@ export const MEDIA_FRAGMENT = `#graphql
     }
   }
 ` as const;
+
+export const SIZE_CHART_FRAGMENT = `#graphql
+  fragment SizeChart on Metaobject {
+    id
+    handle
+    title: field(key: "title") {
+      value
+    }
+    description: field(key: "description") {
+      value
+    }
+    unit: field(key: "unit") {
+      value
+    }
+    chart: field(key: "chart") {
+      value
+    }
+  }
+` as const;
@@ -1,4 +1,9 @@
-import { MEDIA_FRAGMENT, PRODUCT_OPTION_FRAGMENT } from "~/graphql/fragments";
+import {
+  MEDIA_FRAGMENT,
+  PRODUCT_OPTION_FRAGMENT,
+  SELLING_PLAN_GROUP_FRAGMENT,
+  SIZE_CHART_FRAGMENT,
+} from "~/graphql/fragments";
 
 export const PRODUCT_QUERY = `#graphql
   query product(
@@ -12,6 +17,7 @@ export const PRODUCT_QUERY = `#graphql
       title
       vendor
       handle
+      productType
       publishedAt
       descriptionHtml
       description
@@ -35,14 +41,43 @@ export const PRODUCT_QUERY = `#graphql
         namespace
         value
       }
+      personalization: metafield(namespace: "custom", key: "personalization") {
+        value
+      }
       options {
         ...ProductOption
       }
+      sizeChart: metafield(namespace: "custom", key: "size_chart") {
+        reference {
+          ...SizeChart
+        }
+      }
+      quantityBreaks: metafield(namespace: "custom", key: "quantity_breaks") {
+        value
+      }
       selectedOrFirstAvailableVariant(selectedOptions: $selectedOptions, ignoreUnknownOptions: true, caseInsensitiveMatch: true) {
         ...ProductVariant
+        quantityBreaks: metafield(namespace: "custom", key: "quantity_breaks") {
+          value
+        }
+        variantMedia: metafield(namespace: "custom", key: "variant_media") {
+          value
+        }
       }
       adjacentVariants(selectedOptions: $selectedOptions) {
         ...ProductVariant
+        quantityBreaks: metafield(namespace: "custom", key: "quantity_breaks") {
+          value
+        }
+        variantMedia: metafield(namespace: "custom", key: "variant_media") {
+          value
+        }
+      }
+      requiresSellingPlan
+      sellingPlanGroups(first: 5) {
+        nodes {
+          ...SellingPlanGroup
+        }
       }
       media(first: 50) {
         nodes {
@@ -71,4 +106,6 @@ export const PRODUCT_QUERY = `#graphql
   }
   ${MEDIA_FRAGMENT}
   ${PRODUCT_OPTION_FRAGMENT}
+  ${SELLING_PLAN_GROUP_FRAGMENT}
+  ${SIZE_CHART_FRAGMENT}
 ` as const;
@@ -0,0 +1,48 @@
+import { useSyncExternalStore } from "react";
+import { createLocalStorageStore } from "~/utils/local-storage-store";
+
+export const COMPARE_LIMIT = 4;
+
+export type CompareItem = {
+  handle: string;
+  title: string;
+  imageUrl?: string;
+};
+
+const store = createLocalStorageStore<CompareItem>(
+  "compare-products",
+  (items) =>
+    (items as Partial<CompareItem>[])
+      .filter((item): item is CompareItem => typeof item?.handle === "string")
+      .slice(0, COMPARE_LIMIT),
+);
+
+/**
+ * The products picked for comparison, kept in `localStorage` across pages.
+ * Up to `COMPARE_LIMIT` products can be compared at once.
+ */
+export function useCompare() {
+  const items = useSyncExternalStore(
+    store.subscribe,
+    store.get,
+    store.getServerSnapshot,
+  );
+
+  return {
+    items,
+    isFull: items.length >= COMPARE_LIMIT,
+    has: (handle: string) => items.some((item) => item.handle === handle),
+    add: (item: CompareItem) => {
+      const current = store.get();
+      if (
+        current.length < COMPARE_LIMIT &&
+        !current.some(({ handle }) => handle === item.handle)
+      ) {
+        store.set([...current, item]);
+      }
+    },
+    remove: (handle: string) =>
+      store.set(store.get().filter((item) => item.handle !== handle)),
+    clear: () => store.set([]),
+  };
+}
@@ -1,40 +1,120 @@
-import { useEffect, useRef, useState } from "react";
-import { useFetchers } from "react-router";
+import { useThemeSettings } from "@weaverse/hydrogen";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { usePrefixPathWithLocale } from "~/hooks/use-prefix-path-with-locale";
 import type {
   NormalizedPredictiveSearch,
   NormalizedPredictiveSearchResults,
 } from "~/types/predictive-search";
+import {
+  NO_PREDICTIVE_SEARCH_RESULTS,
+  normalizeSearchTerm,
+} from "~/utils/search";
 
-export const NO_PREDICTIVE_SEARCH_RESULTS: NormalizedPredictiveSearchResults = [
-  { type: "queries", items: [] },
-  { type: "products", items: [] },
-  { type: "collections", items: [] },
-  { type: "pages", items: [] },
-  { type: "articles", items: [] },
-];
-
-export function usePredictiveSearch(): NormalizedPredictiveSearch & {
-  searchTerm: React.MutableRefObject<string>;
-} {
-  const [results, setResults] = useState<NormalizedPredictiveSearchResults>();
-  const fetchers = useFetchers();
-  const searchTerm = useRef<string>("");
-  const searchFetcher = fetchers.find((fetcher) => fetcher.data?.searchResults);
-
-  useEffect(() => {
-    if (searchFetcher) {
-      setResults(searchFetcher.data?.searchResults);
-    }
-  }, [searchFetcher]);
-
-  if (searchFetcher?.state === "loading") {
-    searchTerm.current = (searchFetcher.formData?.get("q") || "") as string;
-  }
-
-  const search = (results || {
-    results: NO_PREDICTIVE_SEARCH_RESULTS,
-    totalResults: 0,
-  }) as NormalizedPredictiveSearch;
-
-  return { ...search, searchTerm };
+// Theme settings enabling each predictive search result type
+const SEARCH_TYPES_SETTINGS = {
+  QUERY: "predictiveSearchShowQueries",
+  PRODUCT: "predictiveSearchShowProducts",
+  COLLECTION: "predictiveSearchShowCollections",
+  ARTICLE: "predictiveSearchShowArticles",
+  PAGE: "predictiveSearchShowPages",
+};
+
+type PredictiveSearchResponse = {
+  searchResults: {
+    results: NormalizedPredictiveSearchResults | null;
+    totalResults: number;
+  };
+  searchTerm: string;
+};
+
+type PredictiveSearchState = NormalizedPredictiveSearch & {
+  searchTerm: string;
+  isLoading: boolean;
+};
+
+const EMPTY_STATE: PredictiveSearchState = {
+  results: NO_PREDICTIVE_SEARCH_RESULTS,
+  totalResults: 0,
+  searchTerm: "",
+  isLoading: false,
+};
+
+/**
+ * Debounced predictive search. Each new search term cancels the pending
+ * request, and responses for outdated terms are ignored so the results
+ * always match the latest search term
+ */
+export function usePredictiveSearch({
+  limit = 6,
+  delay = 300,
+}: {
+  limit?: number;
+  delay?: number;
+} = {}) {
+  const settings = useThemeSettings();
+  const apiPath = usePrefixPathWithLocale("/api/predictive-search");
+  const types = Object.entries(SEARCH_TYPES_SETTINGS)
+    .filter(([, setting]) => settings[setting])
+    .map(([type]) => type)
+    .join(",");
+  const [state, setState] = useState<PredictiveSearchState>(EMPTY_STATE);
+  const latestTerm = useRef("");
+  const timeout = useRef<ReturnType<typeof setTimeout>>(undefined);
+  const controller = useRef<AbortController | null>(null);
+
+  const cancel = useCallback(() => {
+    clearTimeout(timeout.current);
+    controller.current?.abort();
+    controller.current = null;
+  }, []);
+
+  const search = useCallback(
+    (value: string) => {
+      const term = normalizeSearchTerm(value);
+      if (term === latestTerm.current) {
+        return;
+      }
+      latestTerm.current = term;
+      cancel();
+      if (!term || !types) {
+        setState({ ...EMPTY_STATE, searchTerm: term });
+        return;
+      }
+      setState((prev) => ({ ...prev, isLoading: true }));
+      timeout.current = setTimeout(() => {
+        const abortController = new AbortController();
+        controller.current = abortController;
+        const params = new URLSearchParams({
+          q: term,
+          limit: String(limit),
+          type: types,
+        });
+        fetch(`${apiPath}?${params}`, { signal: abortController.signal })
+          .then((res) => res.json() as Promise<PredictiveSearchResponse>)
+          .then(({ searchResults, searchTerm }) => {
+            if (searchTerm !== latestTerm.current) {
+              return;
+            }
+            setState({
+              results: searchResults.results || NO_PREDICTIVE_SEARCH_RESULTS,
+              totalResults: searchResults.totalResults,
+              searchTerm,
+              isLoading: false,
+            });
+          })
+          .catch((error) => {
+            if (abortController.signal.aborted) {
+              return;
+            }
+            console.error(error);
+            setState((prev) => ({ ...prev, isLoading: false }));
+          });
+      }, delay);
+    },
+    [apiPath, types, limit, delay, cancel],
+  );
+
+  useEffect(() => cancel, [cancel]);
+
+  return { ...state, search };
 }
@@ -0,0 +1,41 @@
+import { useSyncExternalStore } from "react";
+import { createLocalStorageStore } from "~/utils/local-storage-store";
+
+export const RECENT_SEARCHES_LIMIT = 5;
+
+const store = createLocalStorageStore<string>("recent-searches", (terms) =>
+  terms
+    .filter((term): term is string => typeof term === "string" && !!term)
+    .slice(0, RECENT_SEARCHES_LIMIT),
+);
+
+/**
+ * Record a search term, the most recent searches come first
+ */
+export function addRecentSearch(term: string) {
+  const trimmed = term.trim();
+  if (!trimmed) return;
+  store.set(
+    [
+      trimmed,
+      ...store
+        .get()
+        .filter((recent) => recent.toLowerCase() !== trimmed.toLowerCase()),
+    ].slice(0, RECENT_SEARCHES_LIMIT),
+  );
+}
+
+export function clearRecentSearches() {
+  store.set([]);
+}
+
+/**
+ * The terms recently searched by the shopper
+ */
+export function useRecentSearches() {
+  return useSyncExternalStore(
+    store.subscribe,
+    store.get,
+    store.getServerSnapshot,
+  );
+}
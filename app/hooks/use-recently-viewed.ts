@@ -0,0 +1,38 @@
+import { useSyncExternalStore } from "react";
+import { createLocalStorageStore } from "~/utils/local-storage-store";
+
+export const RECENTLY_VIEWED_LIMIT = 12;
+
+const store = createLocalStorageStore<string>(
+  "recently-viewed-products",
+  (ids) =>
+    ids
+      .filter(
+        (id): id is string =>
+          typeof id === "string" && id.startsWith("gid://shopify/Product/"),
+      )
+      .slice(0, RECENTLY_VIEWED_LIMIT),
+);
+
+/**
+ * Record a product view, the most recent views come first
+ */
+export function addRecentlyViewed(productId: string) {
+  store.set(
+    [productId, ...store.get().filter((id) => id !== productId)].slice(
+      0,
+      RECENTLY_VIEWED_LIMIT,
+    ),
+  );
+}
+
+/**
+ * The ids of the products recently viewed by the shopper
+ */
+export function useRecentlyViewed() {
+  return useSyncExternalStore(
+    store.subscribe,
+    store.get,
+    store.getServerSnapshot,
+  );
+}
@@ -0,0 +1,28 @@
+import { useEffect } from "react";
+import { useFetcher } from "react-router";
+import { usePrefixPathWithLocale } from "~/hooks/use-prefix-path-with-locale";
+import type { loader } from "~/routes/($locale).api.wishlist";
+
+const WISHLIST_FETCHER_KEY = "wishlist";
+
+/**
+ * Load the wishlist from the wishlist API route, called once from the root
+ * layout. The fetcher is revalidated after each wishlist toggle.
+ */
+export function useLoadWishlist() {
+  const { load } = useFetcher<typeof loader>({ key: WISHLIST_FETCHER_KEY });
+  const apiPath = usePrefixPathWithLocale("/api/wishlist");
+
+  useEffect(() => {
+    load(apiPath);
+  }, [load, apiPath]);
+}
+
+/**
+ * The ids of the products in the shopper's wishlist, shared by all the
+ * components using it. `undefined` until the wishlist is loaded.
+ */
+export function useWishlistProductIds() {
+  const { data } = useFetcher<typeof loader>({ key: WISHLIST_FETCHER_KEY });
+  return data?.productIds;
+}
@@ -25,10 +25,12 @@ import {
 import { Footer } from "./components/layout/footer";
 import { Header } from "./components/layout/header";
 import { ScrollingAnnouncement } from "./components/layout/scrolling-announcement";
+import { CompareTray } from "./components/product/compare";
 import { CustomAnalytics } from "./components/root/custom-analytics";
 import { GenericError } from "./components/root/generic-error";
 import { GlobalLoading } from "./components/root/global-loading";
 import { NotFound } from "./components/root/not-found";
+import { useLoadWishlist } from "./hooks/use-wishlist";
 import styles from "./styles/app.css?url";
 import { DEFAULT_LOCALE } from "./utils/const";
 import { loadCriticalData, loadDeferredData } from "./utils/root.server";
@@ -68,6 +70,7 @@ export const meta = ({ data }: MetaArgs<typeof loader>) => {
 };
 
 function App() {
+  useLoadWishlist();
   return <Outlet />;
 }
 
@@ -147,6 +150,7 @@ export function Layout({ children }: { children: React.ReactNode }) {
                   {children}
                 </main>
                 <Footer />
+                <CompareTray />
               </div>
             </TooltipProvider>
             <CustomAnalytics />
@@ -117,10 +117,19 @@ const CUSTOMER_ORDER_QUERY = `#graphql
       width
     }
     variantTitle
+    customAttributes {
+      key
+      value
+    }
   }
   fragment Order on Order {
     id
     name
+    note
+    customAttributes {
+      key
+      value
+    }
     statusPageUrl
     processedAt
     fulfillments(first: 1) {
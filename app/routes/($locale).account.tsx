@@ -1,4 +1,4 @@
-import { SignOutIcon } from "@phosphor-icons/react";
+import { HeartIcon, SignOutIcon } from "@phosphor-icons/react";
 import {
   CacheNone,
   flattenConnection,
@@ -22,6 +22,7 @@ import { AccountDetails } from "~/components/customer/account-details";
 import { AccountAddressBook } from "~/components/customer/address-book";
 import { AccountOrderHistory } from "~/components/customer/orders";
 import { OutletModal } from "~/components/customer/outlet-modal";
+import { Link } from "~/components/link";
 import { ProductCard } from "~/components/product/product-card";
 import { Section } from "~/components/section";
 import { Swimlane } from "~/components/swimlane";
@@ -106,17 +107,31 @@ function Account({ customer, heading, featuredData }: AccountType) {
     >
       <div className="space-y-4">
         <h1 className="h4 font-medium">{heading}</h1>
-        <Form method="post" action={usePrefixPathWithLocale("/account/logout")}>
-          <button
-            type="submit"
+        <div className="flex items-center gap-6">
+          <Link
+            to="/account/wishlist"
             className="text-body-subtle group flex gap-2 items-center"
           >
-            <SignOutIcon className="w-4 h-4" />
+            <HeartIcon className="w-4 h-4" />
             <span className="group-hover:underline underline-offset-4">
-              Sign out
+              Wishlist
             </span>
-          </button>
-        </Form>
+          </Link>
+          <Form
+            method="post"
+            action={usePrefixPathWithLocale("/account/logout")}
+          >
+            <button
+              type="submit"
+              className="text-body-subtle group flex gap-2 items-center"
+            >
+              <SignOutIcon className="w-4 h-4" />
+              <span className="group-hover:underline underline-offset-4">
+                Sign out
+              </span>
+            </button>
+          </Form>
+        </div>
       </div>
       {orders ? <AccountOrderHistory orders={orders} /> : null}
       <AccountDetails customer={customer} />
@@ -0,0 +1,59 @@
+import { CacheNone, generateCacheControlHeader } from "@shopify/hydrogen";
+import { data, type LoaderFunctionArgs } from "@shopify/remix-oxygen";
+import { type MetaFunction, useLoaderData } from "react-router";
+import { Link } from "~/components/link";
+import { ProductCard } from "~/components/product/product-card";
+import { Section } from "~/components/section";
+import { getWishlistProducts } from "~/utils/wishlist.server";
+
+export const meta: MetaFunction = () => {
+  return [{ title: "Wishlist" }];
+};
+
+export async function loader({ context }: LoaderFunctionArgs) {
+  await context.customerAccount.handleAuthStatus();
+
+  return data(
+    { products: await getWishlistProducts(context) },
+    { headers: { "Cache-Control": generateCacheControlHeader(CacheNone()) } },
+  );
+}
+
+export default function Wishlist() {
+  const { products } = useLoaderData<typeof loader>();
+
+  return (
+    <Section
+      width="fixed"
+      verticalPadding="medium"
+      containerClassName="space-y-10"
+    >
+      <div className="space-y-4">
+        <Link
+          to="/account"
+          className="text-body-subtle hover:underline underline-offset-4"
+        >
+          &larr; Back to account
+        </Link>
+        <h1 className="h4 font-medium">Wishlist</h1>
+      </div>
+      {products.length ? (
+        <div
+          className="grid grid-cols-2 gap-x-4 gap-y-8 md:grid-cols-3 lg:grid-cols-4"
+          data-test="wishlist-products"
+        >
+          {products.map((product) => (
+            <ProductCard key={product.id} product={product} />
+          ))}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <p>Your wishlist is empty.</p>
+          <Link to="/products" variant="underline">
+            Start Shopping
+          </Link>
+        </div>
+      )}
+    </Section>
+  );
+}
@@ -1,5 +1,9 @@
 import type { LoaderFunctionArgs } from "@shopify/remix-oxygen";
+import { mergeGuestLists } from "~/utils/customer-lists.server";
 
 export async function loader({ context }: LoaderFunctionArgs) {
-  return context.customerAccount.authorize();
+  const response = await context.customerAccount.authorize();
+  // Keep the wishlist & saved items collected while browsing as a guest
+  await mergeGuestLists(context).catch(console.error);
+  return response;
 }
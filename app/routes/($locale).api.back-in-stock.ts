@@ -0,0 +1,206 @@
+import { type ActionFunctionArgs, data } from "react-router";
+
+// Signups of the current session, to tell shoppers they already subscribed
+const SESSION_KEY = "backInStock";
+const SESSION_LIMIT = 20;
+
+export type BackInStockResponse = {
+  ok: boolean;
+  error?: string;
+  alreadySubscribed?: boolean;
+};
+
+/**
+ * Sign up for a notification when a sold out variant is available again.
+ * Expects `email` and `variantId` form fields.
+ */
+export async function action({ request, context }: ActionFunctionArgs) {
+  const { env, session } = context;
+  const formData = await request.formData();
+  const email = String(formData.get("email") ?? "")
+    .trim()
+    .toLowerCase();
+  const variantId = String(formData.get("variantId") ?? "");
+
+  if (!isValidEmail(email)) {
+    return data<BackInStockResponse>(
+      { ok: false, error: "Please enter a valid email address" },
+      400,
+    );
+  }
+  if (!variantId.startsWith("gid://shopify/ProductVariant/")) {
+    return data<BackInStockResponse>(
+      { ok: false, error: "Invalid product variant" },
+      400,
+    );
+  }
+
+  const key = `${email}|${variantId}`;
+  const signups: string[] = session.get(SESSION_KEY) || [];
+  if (signups.includes(key)) {
+    return data<BackInStockResponse>({ ok: true, alreadySubscribed: true });
+  }
+
+  const provider = getBackInStockProvider(env);
+  if (!provider) {
+    return data<BackInStockResponse>(
+      { ok: false, error: "Back in stock notifications are not available" },
+      501,
+    );
+  }
+
+  try {
+    const { alreadySubscribed } = await provider.subscribe({
+      email,
+      variantId,
+    });
+    session.set(SESSION_KEY, [key, ...signups].slice(0, SESSION_LIMIT));
+    return data<BackInStockResponse>({ ok: true, alreadySubscribed });
+  } catch (e) {
+    console.error(e);
+    return data<BackInStockResponse>(
+      { ok: false, error: "Something went wrong! Please try again." },
+      500,
+    );
+  }
+}
+
+type BackInStockSubscription = {
+  email: string;
+  variantId: string;
+};
+
+/**
+ * Records the back in stock signups, the provider is in charge of sending the
+ * notification once the variant is available again.
+ * Signing up twice for the same variant doesn't create a second subscription.
+ */
+interface BackInStockProvider {
+  name: string;
+  subscribe: (
+    subscription: BackInStockSubscription,
+  ) => Promise<{ alreadySubscribed: boolean }>;
+}
+
+type BackInStockProviderName = "klaviyo" | "local";
+
+const KLAVIYO_BACK_IN_STOCK_API =
+  "https://a.klaviyo.com/api/back-in-stock-subscriptions";
+
+/**
+ * Klaviyo back in stock subscriptions, the store must be connected to Klaviyo
+ * so the Shopify variants are synced to the Klaviyo catalog.
+ * Klaviyo keeps a single subscription per profile and variant.
+ * @see https://developers.klaviyo.com/en/reference/create_back_in_stock_subscription
+ */
+function createKlaviyoBackInStockProvider(
+  apiToken: string,
+): BackInStockProvider {
+  return {
+    name: "klaviyo",
+    async subscribe({ email, variantId }) {
+      const res = await fetch(KLAVIYO_BACK_IN_STOCK_API, {
+        method: "POST",
+        headers: {
+          accept: "application/vnd.api+json",
+          revision: "2024-10-15",
+          "content-type": "application/vnd.api+json",
+          Authorization: `Klaviyo-API-Key ${apiToken}`,
+        },
+        body: JSON.stringify({
+          data: {
+            type: "back-in-stock-subscription",
+            attributes: {
+              channels: ["EMAIL"],
+              profile: {
+                data: { type: "profile", attributes: { email } },
+              },
+            },
+            relationships: {
+              variant: {
+                data: {
+                  type: "catalog-variant",
+                  id: `$shopify:::$default:::${variantId.split("/").pop()}`,
+                },
+              },
+            },
+          },
+        }),
+      });
+      if (!res.ok) {
+        // The error details can contain the shopper's email, only keep the codes
+        const codes = await getKlaviyoErrorCodes(res);
+        throw new Error(
+          `Klaviyo back in stock subscription failed (${res.status}): ${codes.join(", ") || "unknown error"}`,
+        );
+      }
+      return { alreadySubscribed: false };
+    },
+  };
+}
+
+/**
+ * Get the codes of a Klaviyo JSON:API error response, e.g. `invalid`
+ */
+async function getKlaviyoErrorCodes(res: Response): Promise<string[]> {
+  try {
+    const { errors } = (await res.json()) as {
+      errors?: { code?: string }[];
+    };
+    return (errors ?? []).flatMap(({ code }) => (code ? [code] : []));
+  } catch {
+    return [];
+  }
+}
+
+const localSubscriptions = new Set<string>();
+
+/**
+ * Development stand-in, keeps the signups in memory
+ */
+function createLocalBackInStockProvider(): BackInStockProvider {
+  return {
+    name: "local",
+    async subscribe({ email, variantId }) {
+      const key = `${email}|${variantId}`;
+      if (localSubscriptions.has(key)) {
+        return { alreadySubscribed: true };
+      }
+      localSubscriptions.add(key);
+      console.info(
+        `[back-in-stock] new signup for ${variantId} (${localSubscriptions.size} signups)`,
+      );
+      return { alreadySubscribed: false };
+    },
+  };
+}
+
+/**
+ * Pick the provider from `BACK_IN_STOCK_PROVIDER`, defaults to Klaviyo when
+ * `KLAVIYO_PRIVATE_API_TOKEN` is set, and to the local stand-in in development.
+ * The local stand-in is never used outside of development, it would accept
+ * signups that are never sent.
+ * @returns the provider or `null` when no provider is configured
+ */
+function getBackInStockProvider(env: Env): BackInStockProvider | null {
+  const isDevelopment = process.env.NODE_ENV === "development";
+  const name: BackInStockProviderName | null =
+    env.BACK_IN_STOCK_PROVIDER ||
+    (env.KLAVIYO_PRIVATE_API_TOKEN ? "klaviyo" : null) ||
+    (isDevelopment ? "local" : null);
+
+  switch (name) {
+    case "klaviyo":
+      return env.KLAVIYO_PRIVATE_API_TOKEN
+        ? createKlaviyoBackInStockProvider(env.KLAVIYO_PRIVATE_API_TOKEN)
+        : null;
+    case "local":
+      return isDevelopment ? createLocalBackInStockProvider() : null;
+    default:
+      return null;
+  }
+}
+
+function isValidEmail(email: string) {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+}
@@ -0,0 +1,51 @@
+import { CacheNone, generateCacheControlHeader } from "@shopify/hydrogen";
+import { data, type LoaderFunctionArgs } from "@shopify/remix-oxygen";
+import type { ProductCardFragment } from "storefront-api.generated";
+import { getRecommendedProducts } from "~/utils/product";
+
+// Only look up the recommendations of the first products to keep it fast
+const MAX_SOURCE_PRODUCTS = 5;
+
+/**
+ * Fetch the complementary products of the products in the cart,
+ * excluding the products already in the cart
+ * @param count the maximum number of products to return, 4 by default
+ * @returns { products: ProductCardFragment[] }
+ */
+export async function loader({ request, context }: LoaderFunctionArgs) {
+  const count =
+    Number.parseInt(new URL(request.url).searchParams.get("count") ?? "") || 4;
+  const cart = await context.cart.get();
+  const cartProductIds = [
+    ...new Set(
+      cart?.lines.nodes.map(({ merchandise }) => merchandise.product.id) ?? [],
+    ),
+  ];
+
+  const recommendations = await Promise.all(
+    cartProductIds.slice(0, MAX_SOURCE_PRODUCTS).map((productId) =>
+      getRecommendedProducts(context.storefront, productId, {
+        intent: "COMPLEMENTARY",
+        withBestSellers: false,
+      }).catch((error) => {
+        console.error(error);
+        return { nodes: [] as ProductCardFragment[] };
+      }),
+    ),
+  );
+
+  const products: ProductCardFragment[] = [];
+  for (const product of recommendations.flatMap(({ nodes }) => nodes)) {
+    if (
+      !cartProductIds.includes(product.id) &&
+      !products.some(({ id }) => id === product.id)
+    ) {
+      products.push(product);
+    }
+  }
+
+  return data(
+    { products: products.slice(0, count) },
+    { headers: { "Cache-Control": generateCacheControlHeader(CacheNone()) } },
+  );
+}
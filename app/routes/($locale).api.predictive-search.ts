@@ -1,4 +1,8 @@
-import { mapSelectedProductOptionToObject } from "@shopify/hydrogen";
+import {
+  CacheShort,
+  generateCacheControlHeader,
+  mapSelectedProductOptionToObject,
+} from "@shopify/hydrogen";
 import { data, type LoaderFunctionArgs } from "@shopify/remix-oxygen";
 import type {
   PredictiveArticleFragment,
@@ -8,11 +12,14 @@ import type {
   PredictiveQueryFragment,
   PredictiveSearchQuery,
 } from "storefront-api.generated";
-import { NO_PREDICTIVE_SEARCH_RESULTS } from "~/hooks/use-predictive-search";
 import type {
   NormalizedPredictiveSearch,
   NormalizedPredictiveSearchResults,
 } from "~/types/predictive-search";
+import {
+  NO_PREDICTIVE_SEARCH_RESULTS,
+  normalizeSearchTerm,
+} from "~/utils/search";
 
 type PredictiveSearchResultItem =
   | PredictiveArticleFragment
@@ -20,32 +27,44 @@ type PredictiveSearchResultItem =
   | PredictivePageFragment
   | PredictiveProductFragment;
 
-type PredictiveSearchTypes = "ARTICLE" | "PAGE" | "PRODUCT" | "QUERY";
+type PredictiveSearchTypes =
+  | "ARTICLE"
+  | "COLLECTION"
+  | "PAGE"
+  | "PRODUCT"
+  | "QUERY";
 
+const SEARCH_TYPES: PredictiveSearchTypes[] = [
+  "ARTICLE",
+  "COLLECTION",
+  "PAGE",
+  "PRODUCT",
+  "QUERY",
+];
+
+// Used when the request doesn't specify the types to search for
 const DEFAULT_SEARCH_TYPES: PredictiveSearchTypes[] = [
   "ARTICLE",
-  // 'COLLECTION',
-  // 'PAGE',
   "PRODUCT",
   "QUERY",
 ];
 
+const MAX_LIMIT = 10;
+
 /**
- * Fetches the search results from the predictive search API
- * requested by the SearchForm component
+ * Fetches the search results from the predictive search API, requested by
+ * the `usePredictiveSearch` hook. The responses are cached for a short time
  */
-export async function action({ request, params, context }: LoaderFunctionArgs) {
-  if (request.method !== "POST") {
-    throw new Error("Invalid request method");
-  }
-
+export async function loader({ request, params, context }: LoaderFunctionArgs) {
   const search = await fetchPredictiveSearchResults({
     params,
     request,
     context,
   });
 
-  return data(search);
+  return data(search, {
+    headers: { "cache-control": generateCacheControlHeader(CacheShort()) },
+  });
 }
 
 async function fetchPredictiveSearchResults({
@@ -53,27 +72,24 @@ async function fetchPredictiveSearchResults({
   request,
   context,
 }: Pick<LoaderFunctionArgs, "params" | "context" | "request">) {
-  const url = new URL(request.url);
-  const searchParams = new URLSearchParams(url.search);
-  let body: FormData | null = null;
-  try {
-    body = await request.formData();
-  } catch (error) {}
-  const searchTerm = String(body?.get("q") || searchParams.get("q") || "");
-  const limit = Number(body?.get("limit") || searchParams.get("limit") || 10);
-  const rawTypes = String(
-    body?.get("type") || searchParams.get("type") || "ANY",
+  const { storefront } = context;
+  const { searchParams } = new URL(request.url);
+  // Normalized so that equivalent searches share the same cache entry
+  const searchTerm = normalizeSearchTerm(searchParams.get("q") || "");
+  const limit = Math.min(
+    Math.max(Number(searchParams.get("limit")) || MAX_LIMIT, 1),
+    MAX_LIMIT,
   );
+  const rawTypes = searchParams.get("type") || "ANY";
 
   const searchTypes =
     rawTypes === "ANY"
       ? DEFAULT_SEARCH_TYPES
-      : rawTypes
-          .split(",")
-          .map((t) => t.toUpperCase() as PredictiveSearchTypes)
-          .filter((t) => DEFAULT_SEARCH_TYPES.includes(t));
+      : SEARCH_TYPES.filter((type) =>
+          rawTypes.toUpperCase().split(",").includes(type),
+        );
 
-  if (!searchTerm) {
+  if (!searchTerm || !searchTypes.length) {
     return {
       searchResults: { results: null, totalResults: 0 },
       searchTerm,
@@ -81,13 +97,16 @@ async function fetchPredictiveSearchResults({
     };
   }
 
-  const data = await context.storefront.query(PREDICTIVE_SEARCH_QUERY, {
+  const data = await storefront.query(PREDICTIVE_SEARCH_QUERY, {
     variables: {
       limit,
       limitScope: "EACH",
       searchTerm,
       types: searchTypes,
+      country: storefront.i18n.country,
+      language: storefront.i18n.language,
     },
+    cache: storefront.CacheShort(),
   });
 
   if (!data) {
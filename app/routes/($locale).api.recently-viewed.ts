@@ -0,0 +1,57 @@
+import { data, type LoaderFunctionArgs } from "@shopify/remix-oxygen";
+import type {
+  ProductCardFragment,
+  RecentlyViewedProductsQuery,
+} from "storefront-api.generated";
+import { PRODUCT_CARD_FRAGMENT } from "~/graphql/fragments";
+import { RECENTLY_VIEWED_LIMIT } from "~/hooks/use-recently-viewed";
+
+/**
+ * Fetch the recently viewed products in one batch, in the given order
+ * @param ids comma separated product ids
+ * @returns { products: ProductCardFragment[] }
+ */
+export async function loader({ request, context }: LoaderFunctionArgs) {
+  const { storefront } = context;
+  const ids = (new URL(request.url).searchParams.get("ids") || "")
+    .split(",")
+    .filter((id) => id.startsWith("gid://shopify/Product/"))
+    .slice(0, RECENTLY_VIEWED_LIMIT);
+
+  if (!ids.length) {
+    return data({ products: [] as ProductCardFragment[] });
+  }
+
+  const { nodes } = await storefront.query<RecentlyViewedProductsQuery>(
+    RECENTLY_VIEWED_PRODUCTS_QUERY,
+    {
+      variables: {
+        ids,
+        country: storefront.i18n.country,
+        language: storefront.i18n.language,
+      },
+    },
+  );
+
+  // Products deleted or unpublished since they were viewed are skipped
+  const products = nodes.filter((node): node is ProductCardFragment =>
+    Boolean(node && "handle" in node),
+  );
+
+  return data({ products });
+}
+
+const RECENTLY_VIEWED_PRODUCTS_QUERY = `#graphql
+  query RecentlyViewedProducts(
+    $ids: [ID!]!
+    $country: CountryCode
+    $language: LanguageCode
+  ) @inContext(country: $country, language: $language) {
+    nodes(ids: $ids) {
+      ... on Product {
+        ...ProductCard
+      }
+    }
+  }
+  ${PRODUCT_CARD_FRAGMENT}
+` as const;
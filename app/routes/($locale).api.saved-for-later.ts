@@ -0,0 +1,101 @@
+import { CacheNone, generateCacheControlHeader } from "@shopify/hydrogen";
+import {
+  type ActionFunctionArgs,
+  data,
+  type LoaderFunctionArgs,
+} from "@shopify/remix-oxygen";
+import type { SavedForLaterVariantsQuery } from "storefront-api.generated";
+import { PRODUCT_VARIANT_FRAGMENT } from "~/graphql/fragments";
+import {
+  getCustomerList,
+  type SavedItem,
+  updateCustomerList,
+} from "~/utils/customer-lists.server";
+
+const headers = { "Cache-Control": generateCacheControlHeader(CacheNone()) };
+
+/**
+ * Fetch the items saved for later by the current shopper, with their variants
+ */
+export async function loader({ context }: LoaderFunctionArgs) {
+  return data(await getSavedForLater(context), { headers });
+}
+
+/**
+ * Remove an item from the saved for later list.
+ * Saving a cart line or moving an item back to the cart is done by the cart action.
+ */
+export async function action({ request, context }: ActionFunctionArgs) {
+  const formData = await request.formData();
+  const merchandiseId = formData.get("merchandiseId");
+  if (!merchandiseId) {
+    return data(
+      { ok: false, error: "Missing merchandiseId" },
+      { status: 400, headers },
+    );
+  }
+  try {
+    await updateCustomerList<SavedItem>(context, "savedForLater", (items) =>
+      items.filter((item) => item.merchandiseId !== merchandiseId),
+    );
+    return data({ ok: true }, { headers });
+  } catch (error) {
+    console.error(error);
+    return data(
+      { ok: false, error: "Unable to update your saved items" },
+      { status: 500, headers },
+    );
+  }
+}
+
+export async function getSavedForLater(context: LoaderFunctionArgs["context"]) {
+  const { storefront } = context;
+  const items = await getCustomerList<SavedItem>(
+    context,
+    "savedForLater",
+  ).catch((error) => {
+    console.error(error);
+    return [] as SavedItem[];
+  });
+  if (!items.length) {
+    return { items: [] };
+  }
+
+  const { nodes } = await storefront.query<SavedForLaterVariantsQuery>(
+    SAVED_FOR_LATER_VARIANTS_QUERY,
+    {
+      variables: {
+        ids: items.map(({ merchandiseId }) => merchandiseId),
+        country: storefront.i18n.country,
+        language: storefront.i18n.language,
+      },
+    },
+  );
+
+  return {
+    items: items
+      .map((item) => ({
+        ...item,
+        variant: nodes.find((node) => node?.id === item.merchandiseId),
+      }))
+      // Variants deleted since they were saved are skipped
+      .filter(({ variant }) => variant?.id),
+  };
+}
+
+export type SavedForLaterData = Awaited<ReturnType<typeof getSavedForLater>>;
+
+const SAVED_FOR_LATER_VARIANTS_QUERY = `#graphql
+  query SavedForLaterVariants(
+    $ids: [ID!]!
+    $country: CountryCode
+    $language: LanguageCode
+  ) @inContext(country: $country, language: $language) {
+    nodes(ids: $ids) {
+      ... on ProductVariant {
+        ...ProductVariant
+      }
+    }
+  }
+  ${PRODUCT_VARIANT_FRAGMENT}
+` as const;
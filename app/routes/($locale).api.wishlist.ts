@@ -0,0 +1,70 @@
+import { CacheNone, generateCacheControlHeader } from "@shopify/hydrogen";
+import {
+  type ActionFunctionArgs,
+  data,
+  type LoaderFunctionArgs,
+} from "@shopify/remix-oxygen";
+import type { ShouldRevalidateFunction } from "react-router";
+import {
+  addToWishlist,
+  getWishlistProductIds,
+  removeFromWishlist,
+} from "~/utils/wishlist.server";
+
+const headers = { "Cache-Control": generateCacheControlHeader(CacheNone()) };
+
+export const WISHLIST_INTENTS = ["add", "remove"] as const;
+export type WishlistIntent = (typeof WISHLIST_INTENTS)[number];
+
+/**
+ * List the ids of the products in the current shopper's wishlist
+ */
+export async function loader({ context }: LoaderFunctionArgs) {
+  return data(
+    { productIds: await getWishlistProductIds(context) },
+    { headers },
+  );
+}
+
+/**
+ * The wishlist fetcher only needs to be reloaded after a wishlist toggle,
+ * not after every other form submission (cart, newsletter...)
+ */
+export const shouldRevalidate: ShouldRevalidateFunction = ({
+  formAction,
+  defaultShouldRevalidate,
+}) => Boolean(formAction?.endsWith("/api/wishlist")) && defaultShouldRevalidate;
+
+/**
+ * Add or remove a product from the wishlist.
+ * Expects `intent` ("add" | "remove") and `productId` form fields.
+ */
+export async function action({ request, context }: ActionFunctionArgs) {
+  const formData = await request.formData();
+  const intent = formData.get("intent") as WishlistIntent;
+  const productId = formData.get("productId");
+
+  if (!WISHLIST_INTENTS.includes(intent) || typeof productId !== "string") {
+    return data(
+      { ok: false, error: "Invalid wishlist request" },
+      { status: 400, headers },
+    );
+  }
+
+  try {
+    const items =
+      intent === "add"
+        ? await addToWishlist(context, productId)
+        : await removeFromWishlist(context, productId);
+    return data(
+      { ok: true, productIds: items.map((item) => item.productId) },
+      { headers },
+    );
+  } catch (error) {
+    console.error(error);
+    return data(
+      { ok: false, error: "Unable to update your wishlist" },
+      { status: 500, headers },
+    );
+  }
+}
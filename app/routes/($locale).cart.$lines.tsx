@@ -1,4 +1,5 @@
 import { type LoaderFunctionArgs, redirect } from "@shopify/remix-oxygen";
+import { parseCartPermalink } from "~/utils/cart";
 
 /**
  * Automatically creates a new cart based on the URL and redirects straight to checkout.
@@ -10,7 +11,9 @@ import { type LoaderFunctionArgs, redirect } from "@shopify/remix-oxygen";
  * More than one `<variant_id>:<quantity>` separated by a comma, can be supplied in the URL, for
  * carts with more than one product variant.
  *
- * @param `?discount` an optional discount code to apply to the cart
+ * @param `?discount` optional discount codes to apply to the cart, separated by a comma
+ * @param `?attributes[<line index>][<key>]` optional attributes of the lines
+ * @param `?restore=true` land on the cart page instead of the checkout, used by shared carts
  * @example
  * Example path creating a cart with two product variants, different quantities, and a discount code:
  * ```ts
@@ -20,30 +23,22 @@ import { type LoaderFunctionArgs, redirect } from "@shopify/remix-oxygen";
  * @preserve
  */
 export async function loader({ request, context, params }: LoaderFunctionArgs) {
-  const { cart } = context;
-  const { lines } = params;
-  const linesMap = lines?.split(",").map((line) => {
-    const lineDetails = line.split(":");
-    const variantId = lineDetails[0];
-    const quantity = Number.parseInt(lineDetails[1], 10);
-
-    return {
-      merchandiseId: `gid://shopify/ProductVariant/${variantId}`,
-      quantity,
-    };
-  });
-
+  const { cart, storefront } = context;
   const url = new URL(request.url);
-  const searchParams = new URLSearchParams(url.search);
 
-  const discount = searchParams.get("discount");
-  const discountArray = discount ? [discount] : [];
+  const { lines, discountCodes, restore, errors } = parseCartPermalink(
+    params.lines,
+    url.searchParams,
+  );
+
+  if (errors.length) {
+    throw new Response(`Invalid cart link. ${errors.join(" ")}`, {
+      status: 400,
+    });
+  }
 
   //! create a cart
-  const result = await cart.create({
-    lines: linesMap,
-    discountCodes: discountArray,
-  });
+  const result = await cart.create({ lines, discountCodes });
 
   const cartResult = result.cart;
 
@@ -56,6 +51,11 @@ export async function loader({ request, context, params }: LoaderFunctionArgs) {
   // Update cart id in cookie
   const headers = cart.setCartId(cartResult.id);
 
+  //! land on the cart page to review the restored cart
+  if (restore) {
+    return redirect(`${storefront.i18n.pathPrefix}/cart`, { headers });
+  }
+
   //! redirect to checkout
   if (cartResult.checkoutUrl) {
     return redirect(cartResult.checkoutUrl, { headers });
@@ -4,9 +4,11 @@ import {
   type CartQueryDataReturn,
 } from "@shopify/hydrogen";
 import type {
+  AttributeInput,
   CartBuyerIdentityInput,
   CartLineInput,
   CartLineUpdateInput,
+  CartUserError,
 } from "@shopify/hydrogen/storefront-api-types";
 import {
   type ActionFunctionArgs,
@@ -14,11 +16,26 @@ import {
   type LoaderFunctionArgs,
   redirect,
 } from "@shopify/remix-oxygen";
-import { Await, useRouteLoaderData } from "react-router";
+import { type AppLoadContext, Await, useRouteLoaderData } from "react-router";
 import type { CartApiQueryFragment } from "storefront-api.generated";
 import invariant from "tiny-invariant";
 import { Cart } from "~/components/cart/cart";
 import type { RootLoader } from "~/root";
+import {
+  CART_CUSTOM_ACTIONS,
+  type DiscountCodeResult,
+  GIFT_WRAP_ATTRIBUTE,
+  getDiscountCodeResults,
+  getStaleDiscountCodes,
+  mergeAttributes,
+  normalizeDiscountCodes,
+} from "~/utils/cart";
+import {
+  getCustomerList,
+  type SavedItem,
+  setCustomerList,
+  updateCustomerList,
+} from "~/utils/customer-lists.server";
 
 export async function action({ request, context }: ActionFunctionArgs) {
   const { cart } = context;
@@ -28,29 +45,134 @@ export async function action({ request, context }: ActionFunctionArgs) {
 
   const status = 200;
   let result: CartQueryDataReturn;
+  let discountCodeResults: DiscountCodeResult[] | undefined;
 
   switch (action) {
     case CartForm.ACTIONS.LinesAdd:
       result = await cart.addLines(inputs.lines as CartLineInput[]);
+      // Bundles can come with their own discount code
+      if (inputs.discountCode && !result.userErrors?.length) {
+        const discountCodes = normalizeDiscountCodes([
+          ...(result.cart?.discountCodes?.map(({ code }) => code) || []),
+          inputs.discountCode,
+        ]);
+        result = await cart.updateDiscountCodes(discountCodes);
+      }
       break;
-    case CartForm.ACTIONS.LinesUpdate:
-      result = await cart.updateLines(inputs.lines as CartLineUpdateInput[]);
+    case CartForm.ACTIONS.LinesUpdate: {
+      const lines = inputs.lines as CartLineUpdateInput[];
+      const current = await cart.get();
+      result = await cart.updateLines(lines);
+      result = await removeStaleDiscountCodes(cart, current, lines, result);
       break;
-    case CartForm.ACTIONS.LinesRemove:
-      result = await cart.removeLines(inputs.lineIds as string[]);
+    }
+    case CartForm.ACTIONS.LinesRemove: {
+      const lineIds = inputs.lineIds as string[];
+      const current = await cart.get();
+      result = await cart.removeLines(lineIds);
+      result = await removeStaleDiscountCodes(
+        cart,
+        current,
+        lineIds.map((id) => ({ id, quantity: 0 })),
+        result,
+      );
       break;
+    }
     case CartForm.ACTIONS.DiscountCodesUpdate: {
-      const formDiscountCode = inputs.discountCode;
-
-      // User inputted discount code
-      const discountCodes = (
-        formDiscountCode ? [formDiscountCode] : []
-      ) as string[];
-
-      // Combine discount codes already applied on cart
-      discountCodes.push(...(inputs.discountCodes as string[]));
+      // Combine discount codes already on cart with the user inputted one
+      const discountCodes = normalizeDiscountCodes([
+        ...((inputs.discountCodes as string[]) || []),
+        inputs.discountCode,
+      ]);
 
       result = await cart.updateDiscountCodes(discountCodes);
+      discountCodeResults = getDiscountCodeResults(discountCodes, {
+        discountCodes: result.cart?.discountCodes,
+        userErrors: result.userErrors,
+      });
+      break;
+    }
+    case CartForm.ACTIONS.NoteUpdate:
+      result = await cart.updateNote(String(inputs.note ?? "").trim());
+      break;
+    case CartForm.ACTIONS.AttributesUpdateInput: {
+      const current = await cart.get();
+      result = await cart.updateAttributes(
+        mergeAttributes(
+          current?.attributes,
+          inputs.attributes as AttributeInput[],
+        ),
+      );
+      break;
+    }
+    case CART_CUSTOM_ACTIONS.GiftWrapUpdate: {
+      const current = await cart.get();
+      result = await cart.updateAttributes(
+        mergeAttributes(current?.attributes, [
+          {
+            key: GIFT_WRAP_ATTRIBUTE,
+            value: inputs.giftWrap ? "Yes" : "",
+          },
+        ]),
+      );
+      break;
+    }
+    case CART_CUSTOM_ACTIONS.SaveForLater: {
+      const { id, merchandiseId, quantity, attributes } =
+        inputs.line as SavedItem & { id: string };
+      const item = { merchandiseId, quantity, attributes };
+      result = await cart.removeLines([id]);
+      if (result.userErrors?.length) {
+        break;
+      }
+      try {
+        await updateCustomerList<SavedItem>(
+          context,
+          "savedForLater",
+          (items) => [
+            item,
+            ...items.filter((saved) => saved.merchandiseId !== merchandiseId),
+          ],
+        );
+      } catch (error) {
+        console.error(error);
+        // Put the line back rather than losing it
+        result = withUserError(
+          await cart.addLines([item]),
+          SAVED_FOR_LATER_ERROR,
+        );
+      }
+      break;
+    }
+    case CART_CUSTOM_ACTIONS.MoveToCart: {
+      let items: SavedItem[];
+      try {
+        items = await getCustomerList<SavedItem>(context, "savedForLater");
+      } catch (error) {
+        console.error(error);
+        result = withUserError(await getCart(cart), SAVED_FOR_LATER_ERROR);
+        break;
+      }
+      const savedItem = items.find(
+        (item) => item.merchandiseId === inputs.merchandiseId,
+      );
+      if (!savedItem) {
+        result = withUserError(
+          await getCart(cart),
+          "This item is no longer saved for later.",
+        );
+        break;
+      }
+
+      result = await cart.addLines([savedItem]);
+      if (!result.userErrors?.length) {
+        // The item is in the cart already, a failure only leaves it saved too
+        await setCustomerList(
+          context,
+          "savedForLater",
+          items.filter((item) => item !== savedItem),
+        ).catch((error) => console.error(error));
+      }
       break;
     }
     case CartForm.ACTIONS.BuyerIdentityUpdate:
@@ -65,7 +187,9 @@ export async function action({ request, context }: ActionFunctionArgs) {
   /**
    * The Cart ID may change after each mutation. We need to update it each time in the session.
    */
-  const headers = cart.setCartId(result.cart.id);
+  const headers = result.cart?.id
+    ? cart.setCartId(result.cart.id)
+    : new Headers();
 
   const redirectTo = formData.get("redirectTo") ?? null;
   if (typeof redirectTo === "string" && isLocalPath(redirectTo)) {
@@ -74,18 +198,71 @@ export async function action({ request, context }: ActionFunctionArgs) {
     return redirect(redirectTo);
   }
 
-  const { cart: cartResult, errors, userErrors } = result;
+  const { cart: cartResult, errors, userErrors, warnings } = result;
 
   return data(
     {
       cart: cartResult,
       userErrors,
+      warnings,
       errors,
+      discountCodes: discountCodeResults,
     },
     { status, headers },
   );
 }
 
+const SAVED_FOR_LATER_ERROR = "Unable to update your saved items.";
+
+async function getCart(cart: AppLoadContext["cart"]) {
+  return { cart: (await cart.get()) as CartQueryDataReturn["cart"] };
+}
+
+/**
+ * Report a failure outside of the cart mutations, e.g. with the saved for
+ * later list, like the cart user errors
+ */
+function withUserError(
+  result: CartQueryDataReturn,
+  message: string,
+): CartQueryDataReturn {
+  return {
+    ...result,
+    userErrors: [
+      ...((result.userErrors as CartUserError[]) || []),
+      { message },
+    ],
+  };
+}
+
+/**
+ * Remove the discount codes added with the cart lines (quantity breaks,
+ * bundles) once the updated lines no longer qualify for them
+ */
+async function removeStaleDiscountCodes(
+  cart: AppLoadContext["cart"],
+  current: Awaited<ReturnType<AppLoadContext["cart"]["get"]>>,
+  updates: Parameters<typeof getStaleDiscountCodes>[1],
+  result: CartQueryDataReturn,
+) {
+  if (!current || result.userErrors?.length) {
+    return result;
+  }
+  const staleCodes = getStaleDiscountCodes(current.lines.nodes, updates);
+  const discountCodes = (result.cart?.discountCodes || [])
+    .map(({ code }) => code)
+    .filter((code) => !staleCodes.includes(code.toLowerCase()));
+  if (discountCodes.length === result.cart?.discountCodes?.length) {
+    return result;
+  }
+  const updated = await cart.updateDiscountCodes(discountCodes);
+  // Keep the warnings of the lines update, e.g. not enough stock
+  return {
+    ...updated,
+    warnings: [...(result.warnings || []), ...(updated.warnings || [])],
+  };
+}
+
 export async function loader({ context }: LoaderFunctionArgs) {
   const { cart } = context;
   return await cart.get();
@@ -4,10 +4,7 @@ import {
   getPaginationVariables,
   getSeoMeta,
 } from "@shopify/hydrogen";
-import type {
-  ProductCollectionSortKeys,
-  ProductFilter,
-} from "@shopify/hydrogen/storefront-api-types";
+import type { ProductCollectionSortKeys } from "@shopify/hydrogen/storefront-api-types";
 import {
   type LoaderFunctionArgs,
   type MetaArgs,
@@ -17,10 +14,13 @@ import { useLoaderData } from "react-router";
 import type { CollectionQuery } from "storefront-api.generated";
 import invariant from "tiny-invariant";
 import { PRODUCT_CARD_FRAGMENT } from "~/graphql/fragments";
-import type { I18nLocale } from "~/types/locale";
 import { routeHeaders } from "~/utils/cache";
 import { PAGINATION_SIZE } from "~/utils/const";
-import { FILTER_URL_PREFIX, type SortParam } from "~/utils/filter";
+import {
+  getAppliedFilters,
+  getFiltersFromParams,
+  type SortParam,
+} from "~/utils/filter";
 import { redirectIfHandleIsLocalized } from "~/utils/redirect";
 import { seoPayload } from "~/utils/seo.server";
 import { WeaverseContent } from "~/weaverse";
@@ -41,18 +41,7 @@ export async function loader({ params, request, context }: LoaderFunctionArgs) {
   const { sortKey, reverse } = getSortValuesFromParam(
     searchParams.get("sort") as SortParam,
   );
-  const filters = [...searchParams.entries()].reduce(
-    (filters, [key, value]) => {
-      if (key.startsWith(FILTER_URL_PREFIX)) {
-        const filterKey = key.substring(FILTER_URL_PREFIX.length);
-        filters.push({
-          [filterKey]: JSON.parse(value),
-        });
-      }
-      return filters;
-    },
-    [] as ProductFilter[],
-  );
+  const filters = getFiltersFromParams(searchParams);
 
   const { CUSTOM_COLLECTION_BANNER_METAFIELD = "" } = env;
   const [bannerNamespace = "", bannerKey = ""] =
@@ -103,53 +92,12 @@ export async function loader({ params, request, context }: LoaderFunctionArgs) {
 
   const seo = seoPayload.collection({ collection, url: request.url });
 
-  const allFilterValues = collection.products.filters.flatMap(
-    (filter) => filter.values,
+  const appliedFilters = getAppliedFilters(
+    filters,
+    collection.products.filters,
+    locale,
   );
 
-  const appliedFilters = filters
-    .map((filter) => {
-      const foundValue = allFilterValues.find((value) => {
-        const valueInput = JSON.parse(value.input as string) as ProductFilter;
-        // special case for price, the user can enter something freeform (still a number, though)
-        // that may not make sense for the locale/currency.
-        // Basically just check if the price filter is applied at all.
-        if (valueInput.price && filter.price) {
-          return true;
-        }
-        return (
-          // This comparison should be okay as long as we're not manipulating the input we
-          // get from the API before using it as a URL param.
-          JSON.stringify(valueInput) === JSON.stringify(filter)
-        );
-      });
-      if (!foundValue) {
-        // eslint-disable-next-line no-console
-        console.error("Could not find filter value for filter", filter);
-        return null;
-      }
-
-      if (foundValue.id === "filter.v.price") {
-        // Special case for price, we want to show the min and max values as the label.
-        const input = JSON.parse(foundValue.input as string) as ProductFilter;
-        const min = parseAsCurrency(input.price?.min ?? 0, locale);
-        const max = input.price?.max
-          ? parseAsCurrency(input.price.max, locale)
-          : "";
-        const label = min && max ? `${min} - ${max}` : "Price";
-
-        return {
-          filter,
-          label,
-        };
-      }
-      return {
-        filter,
-        label: foundValue.label,
-      };
-    })
-    .filter((filter): filter is NonNullable<typeof filter> => filter !== null);
-
   return {
     collection,
     appliedFilters,
@@ -221,13 +169,6 @@ function getSortValuesFromParam(sortParam: SortParam | null): {
   }
 }
 
-function parseAsCurrency(value: number, locale: I18nLocale) {
-  return new Intl.NumberFormat(`${locale.language}-${locale.country}`, {
-    style: "currency",
-    currency: locale.currency,
-  }).format(value);
-}
-
 const COLLECTION_QUERY = `#graphql
   query collection(
     $handle: String!
@@ -0,0 +1,322 @@
+import { Money } from "@shopify/hydrogen";
+import type { LoaderFunctionArgs } from "@shopify/remix-oxygen";
+import { type MetaFunction, useLoaderData } from "react-router";
+import type {
+  CompareProductFragment,
+  CompareProductsQuery,
+} from "storefront-api.generated";
+import { Image } from "~/components/image";
+import { Link } from "~/components/link";
+import { getComparePath } from "~/components/product/compare";
+import { Section } from "~/components/section";
+import { COMPARE_LIMIT, useCompare } from "~/hooks/use-compare";
+import { routeHeaders } from "~/utils/cache";
+
+export const headers = routeHeaders;
+
+export const meta: MetaFunction = () => {
+  return [{ title: "Compare products" }];
+};
+
+export async function loader({ request, context }: LoaderFunctionArgs) {
+  const { storefront, weaverse } = context;
+  const searchParams = new URL(request.url).searchParams;
+  const handles = [
+    ...new Set(
+      (searchParams.get("handles") || "")
+        .split(",")
+        .map((handle) => handle.trim())
+        .filter(Boolean),
+    ),
+  ].slice(0, COMPARE_LIMIT);
+  const { theme } = await weaverse.loadThemeSettings();
+  const metafields = parseCompareMetafields(theme?.compareMetafields);
+
+  if (!handles.length) {
+    return { products: [], metafields };
+  }
+
+  const data = await storefront.query<CompareProductsQuery>(
+    COMPARE_PRODUCTS_QUERY,
+    {
+      variables: {
+        handle1: handles[0],
+        handle2: handles[1] || "",
+        handle3: handles[2] || "",
+        handle4: handles[3] || "",
+        with2: handles.length > 1,
+        with3: handles.length > 2,
+        with4: handles.length > 3,
+        metafields,
+        country: storefront.i18n.country,
+        language: storefront.i18n.language,
+      },
+    },
+  );
+  const products = [data.p1, data.p2, data.p3, data.p4].filter(
+    (product): product is CompareProductFragment => Boolean(product),
+  );
+
+  return { products, metafields };
+}
+
+/**
+ * The metafields chosen in the theme settings, e.g. `custom.material,custom.care_guide`
+ */
+function parseCompareMetafields(value = "") {
+  return value
+    .split(",")
+    .map((identifier) => identifier.trim().split("."))
+    .filter(([namespace, key]) => namespace && key)
+    .map(([namespace, key]) => ({ namespace, key }));
+}
+
+export default function Compare() {
+  const { products, metafields } = useLoaderData<typeof loader>();
+  const { remove } = useCompare();
+  const handles = products.map(({ handle }) => handle);
+
+  const optionNames = [
+    ...new Set(products.flatMap(({ options }) => options.map((o) => o.name))),
+  ];
+
+  return (
+    <Section
+      width="fixed"
+      verticalPadding="medium"
+      containerClassName="space-y-10"
+    >
+      <h1 className="h4 font-medium">Compare products</h1>
+      {products.length ? (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left border-collapse table-fixed min-w-[640px]">
+            <thead>
+              <tr>
+                <td className="w-40" />
+                {products.map((product) => (
+                  <th
+                    key={product.id}
+                    scope="col"
+                    className="p-3 align-top font-normal"
+                  >
+                    <div className="space-y-3">
+                      {product.featuredImage && (
+                        <Image
+                          data={product.featuredImage}
+                          width={300}
+                          aspectRatio="1/1"
+                          className="bg-gray-100"
+                        />
+                      )}
+                      <Link
+                        to={`/products/${product.handle}`}
+                        className="block font-bold hover:underline underline-offset-4"
+                      >
+                        {product.title}
+                      </Link>
+                      <Link
+                        to={getComparePath(
+                          handles.filter((h) => h !== product.handle),
+                        )}
+                        onClick={() => remove(product.handle)}
+                        className="text-sm text-body-subtle underline underline-offset-4"
+                      >
+                        Remove
+                      </Link>
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="[&_th]:p-3 [&_td]:p-3 [&_tr]:border-t [&_tr]:border-line-subtle">
+              <CompareRow label="Price" products={products}>
+                {({ priceRange: { minVariantPrice, maxVariantPrice } }) =>
+                  minVariantPrice.amount === maxVariantPrice.amount ? (
+                    <Money withoutTrailingZeros data={minVariantPrice} />
+                  ) : (
+                    <span className="flex gap-1">
+                      From <Money withoutTrailingZeros data={minVariantPrice} />
+                    </span>
+                  )
+                }
+              </CompareRow>
+              <CompareRow label="Vendor" products={products}>
+                {({ vendor }) => vendor}
+              </CompareRow>
+              <CompareRow label="Availability" products={products}>
+                {({ availableForSale }) =>
+                  availableForSale ? "In stock" : "Sold out"
+                }
+              </CompareRow>
+              {optionNames.map((name) => (
+                <CompareRow key={name} label={name} products={products}>
+                  {({ options }) =>
+                    options
+                      .find((option) => option.name === name)
+                      ?.optionValues.map((value) => value.name)
+                      .join(", ")
+                  }
+                </CompareRow>
+              ))}
+              {metafields.map(({ namespace, key }) => (
+                <CompareRow
+                  key={`${namespace}.${key}`}
+                  label={getMetafieldLabel(key)}
+                  products={products}
+                >
+                  {(product) =>
+                    formatMetafieldValue(
+                      product.metafields.find(
+                        (m) => m?.namespace === namespace && m.key === key,
+                      ),
+                    )
+                  }
+                </CompareRow>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <p>
+            Tick the Compare box on up to {COMPARE_LIMIT} products to see them
+            side by side.
+          </p>
+          <Link to="/products" variant="underline">
+            Start Shopping
+          </Link>
+        </div>
+      )}
+    </Section>
+  );
+}
+
+function CompareRow({
+  label,
+  products,
+  children,
+}: {
+  label: string;
+  products: CompareProductFragment[];
+  children: (product: CompareProductFragment) => React.ReactNode;
+}) {
+  return (
+    <tr>
+      <th scope="row" className="font-medium align-top">
+        {label}
+      </th>
+      {products.map((product) => (
+        <td key={product.id} className="align-top">
+          {children(product) || "—"}
+        </td>
+      ))}
+    </tr>
+  );
+}
+
+function getMetafieldLabel(key: string) {
+  const label = key.replace(/[_-]+/g, " ").trim();
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+function formatMetafieldValue(
+  metafield?: { type: string; value: string } | null,
+) {
+  if (!metafield?.value || metafield.type.endsWith("_reference")) {
+    return null;
+  }
+  const { type, value } = metafield;
+  if (type === "boolean") {
+    return value === "true" ? "Yes" : "No";
+  }
+  try {
+    if (type.startsWith("list.")) {
+      return (JSON.parse(value) as unknown[])
+        .map((item) => formatMeasurement(item) ?? String(item))
+        .join(", ");
+    }
+    if (["dimension", "weight", "volume"].includes(type)) {
+      return formatMeasurement(JSON.parse(value));
+    }
+  } catch {
+    // fall back to the raw value
+  }
+  return value;
+}
+
+function formatMeasurement(value: unknown) {
+  if (value && typeof value === "object" && "value" in value) {
+    const { value: amount, unit } = value as { value: number; unit?: string };
+    return [amount, unit?.toLowerCase()].filter(Boolean).join(" ");
+  }
+  return null;
+}
+
+const COMPARE_PRODUCT_FRAGMENT = `#graphql
+  fragment CompareProduct on Product {
+    id
+    title
+    handle
+    vendor
+    availableForSale
+    featuredImage {
+      id
+      url
+      altText
+      width
+      height
+    }
+    priceRange {
+      minVariantPrice {
+        amount
+        currencyCode
+      }
+      maxVariantPrice {
+        amount
+        currencyCode
+      }
+    }
+    options {
+      name
+      optionValues {
+        name
+      }
+    }
+    metafields(identifiers: $metafields) {
+      namespace
+      key
+      type
+      value
+    }
+  }
+` as const;
+
+// One aliased field per product, up to `COMPARE_LIMIT`
+const COMPARE_PRODUCTS_QUERY = `#graphql
+  query compareProducts(
+    $handle1: String!
+    $handle2: String!
+    $handle3: String!
+    $handle4: String!
+    $with2: Boolean!
+    $with3: Boolean!
+    $with4: Boolean!
+    $metafields: [HasMetafieldsIdentifier!]!
+    $country: CountryCode
+    $language: LanguageCode
+  ) @inContext(country: $country, language: $language) {
+    p1: product(handle: $handle1) {
+      ...CompareProduct
+    }
+    p2: product(handle: $handle2) @include(if: $with2) {
+      ...CompareProduct
+    }
+    p3: product(handle: $handle3) @include(if: $with3) {
+      ...CompareProduct
+    }
+    p4: product(handle: $handle4) @include(if: $with4) {
+      ...CompareProduct
+    }
+  }
+  ${COMPARE_PRODUCT_FRAGMENT}
+` as const;
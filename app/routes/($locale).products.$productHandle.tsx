@@ -21,6 +21,7 @@ import { createJudgeMeReview, getJudgeMeProductReviews } from "~/utils/judgeme";
 import { getRecommendedProducts } from "~/utils/product";
 import { redirectIfHandleIsLocalized } from "~/utils/redirect";
 import { seoPayload } from "~/utils/seo.server";
+import { getProductTypeSizeChart } from "~/utils/size-chart";
 import { WeaverseContent } from "~/weaverse";
 
 export const headers = routeHeaders;
@@ -51,6 +52,18 @@ export async function loader({ params, request, context }: LoaderFunctionArgs) {
   }
   redirectIfHandleIsLocalized(request, { handle, data: product });
 
+  // The product's own size chart first, then the streamed one of its product type
+  const sizeChart = product.sizeChart?.reference
+    ? Promise.resolve(product.sizeChart.reference)
+    : getProductTypeSizeChart(
+        storefront,
+        product.productType,
+        context.env.METAOBJECT_SIZE_CHART_TYPE,
+      ).catch((error) => {
+        console.error(error);
+        return null;
+      });
+
   // Use Hydrogen/Remix streaming for recommended products
   const recommended = getRecommendedProducts(storefront, product.id);
 
@@ -63,6 +76,7 @@ export async function loader({ params, request, context }: LoaderFunctionArgs) {
     seo: seoPayload.product({ product, url: request.url }),
     recommended,
     selectedOptions,
+    sizeChart,
   };
 }
 
@@ -3,54 +3,177 @@ import {
   Analytics,
   getPaginationVariables,
   getSeoMeta,
-  Pagination,
 } from "@shopify/hydrogen";
-import type { LoaderFunctionArgs, MetaArgs } from "@shopify/remix-oxygen";
-import { clsx } from "clsx";
+import type {
+  Filter,
+  SearchSortKeys,
+} from "@shopify/hydrogen/storefront-api-types";
+import {
+  type LoaderFunctionArgs,
+  type MetaArgs,
+  redirect,
+} from "@shopify/remix-oxygen";
 import { Fragment, Suspense, useEffect, useState } from "react";
 import { Await, Form, useLoaderData } from "react-router";
-import type { SearchQuery } from "storefront-api.generated";
+import type {
+  ProductCardFragment,
+  SearchArticleFragment,
+  SearchCollectionFragment,
+  SearchPageFragment,
+  SearchQuery,
+} from "storefront-api.generated";
 import { BreadCrumb } from "~/components/breadcrumb";
 import Link from "~/components/link";
 import { ProductCard } from "~/components/product/product-card";
+import {
+  ArticleResults,
+  CollectionResults,
+  getSearchTab,
+  PageResults,
+  type SearchTab,
+  SearchTabs,
+} from "~/components/search/search-results";
 import { Section } from "~/components/section";
 import { Swimlane } from "~/components/swimlane";
 import { PRODUCT_CARD_FRAGMENT } from "~/graphql/fragments";
+import {
+  Filters,
+  type FiltersData,
+} from "~/sections/collection-filters/filters";
+import { ProductsPagination } from "~/sections/collection-filters/products-pagination";
+import { ToolsBar } from "~/sections/collection-filters/tools-bar";
 import { PAGINATION_SIZE } from "~/utils/const";
+import {
+  getAppliedFilters,
+  getFiltersFromParams,
+  type SortParam,
+} from "~/utils/filter";
+import {
+  applySearchSynonyms,
+  getSearchRedirect,
+  getSearchSettings,
+  getSearchSuggestions,
+} from "~/utils/search";
 import { seoPayload } from "~/utils/seo.server";
 import {
   type FeaturedData,
   getFeaturedData,
 } from "./($locale).api.featured-items";
 
+// The `search` query can only be sorted by relevance or price
+const SEARCH_SORT_PARAMS: SortParam[] = [
+  "relevance",
+  "price-low-high",
+  "price-high-low",
+];
+
 export async function loader({
   request,
-  context: { storefront },
+  context: { storefront, env },
 }: LoaderFunctionArgs) {
   const { searchParams } = new URL(request.url);
   const searchTerm = searchParams.get("q");
-  let products: SearchQuery["products"] = {
-    nodes: [],
-    pageInfo: null,
+  // Only awaited to search, the popular searches are streamed
+  const searchSettings = getSearchSettings(
+    storefront,
+    env.METAOBJECT_SEARCH_SETTINGS_TYPE,
+  );
+  const tab = getSearchTab(searchParams.get("type"));
+  const filters = getFiltersFromParams(searchParams);
+  let products: ProductsConnection = { nodes: [], pageInfo: EMPTY_PAGE_INFO };
+  let collections: SearchResults<SearchCollectionFragment> | null = null;
+  let articles: SearchResults<SearchArticleFragment> | null = null;
+  let pages: SearchResults<SearchPageFragment> | null = null;
+  let productFilters: Filter[] = [];
+  const counts: Record<SearchTab, number> = {
+    products: 0,
+    collections: 0,
+    articles: 0,
+    pages: 0,
   };
 
+  let rewrittenTerm: string | null = null;
+  let suggestions: string[] = [];
+
   if (searchTerm) {
+    const settings = await searchSettings;
+    const redirectUrl = getSearchRedirect(searchTerm, settings.redirects);
+    if (redirectUrl) {
+      throw redirect(
+        redirectUrl.startsWith("/")
+          ? `${storefront.i18n.pathPrefix || ""}${redirectUrl}`
+          : redirectUrl,
+      );
+    }
+    rewrittenTerm = applySearchSynonyms(searchTerm, settings.synonyms);
+
     const variables = getPaginationVariables(request, {
       pageBy: PAGINATION_SIZE,
     });
+    const { sortKey, reverse } = getSortValuesFromParam(
+      searchParams.get("sort") as SortParam,
+    );
 
+    // Only the active tab is fully queried, the others just return their count
     const data = await storefront.query<SearchQuery>(SEARCH_QUERY, {
       variables: {
-        searchTerm,
+        searchTerm: rewrittenTerm || searchTerm,
+        filters,
+        sortKey,
+        reverse,
         ...variables,
+        withProducts: tab === "products",
+        withCollections: tab === "collections",
+        withArticles: tab === "articles",
+        withPages: tab === "pages",
         country: storefront.i18n.country,
         language: storefront.i18n.language,
       },
     });
-    products = data.products;
+    counts.products = (data.products || data.productsCount)?.totalCount || 0;
+    counts.collections = Number(
+      (data.collections || data.collectionsCount)?.totalCount || 0,
+    );
+    counts.articles = (data.articles || data.articlesCount)?.totalCount || 0;
+    counts.pages = (data.pages || data.pagesCount)?.totalCount || 0;
+
+    if (data.products) {
+      products = {
+        nodes: data.products.nodes.filter(
+          (node): node is Extract<typeof node, { __typename: "Product" }> =>
+            node.__typename === "Product",
+        ),
+        pageInfo: data.products.pageInfo,
+      };
+      productFilters = data.products.productFilters as Filter[];
+    }
+    if (data.collections) {
+      collections = data.collections;
+    }
+    if (data.articles) {
+      articles = {
+        nodes: data.articles.nodes.filter(
+          (node): node is Extract<typeof node, { __typename: "Article" }> =>
+            node.__typename === "Article",
+        ),
+        pageInfo: data.articles.pageInfo,
+      };
+    }
+    if (data.pages) {
+      pages = {
+        nodes: data.pages.nodes.filter(
+          (node): node is Extract<typeof node, { __typename: "Page" }> =>
+            node.__typename === "Page",
+        ),
+        pageInfo: data.pages.pageInfo,
+      };
+    }
+    if (!Object.values(counts).some(Boolean)) {
+      suggestions = getSearchSuggestions(searchTerm, settings);
+    }
   }
 
-  const hasResults = products?.nodes?.length > 0;
+  const resultsCount = Object.values(counts).reduce((a, b) => a + b, 0);
 
   return {
     seo: seoPayload.collection({
@@ -63,8 +186,8 @@ export async function loader({
         description: "Search results",
         seo: {
           title: "Search",
-          description: hasResults
-            ? `Showing ${products.nodes.length} search results for "${searchTerm}"`
+          description: resultsCount
+            ? `Showing ${resultsCount} search results for "${searchTerm}"`
             : searchTerm
               ? `No results found for "${searchTerm}"`
               : "Search our store",
@@ -75,8 +198,20 @@ export async function loader({
       },
     }),
     searchTerm,
+    rewrittenTerm,
+    popularSearches: searchSettings.then(
+      ({ popularSearches }) => popularSearches,
+    ),
+    suggestions,
+    tab,
+    counts,
     products,
-    recommendations: hasResults
+    collections,
+    articles,
+    pages,
+    productFilters,
+    appliedFilters: getAppliedFilters(filters, productFilters, storefront.i18n),
+    recommendations: resultsCount
       ? Promise.resolve(null)
       : getRecommendations(storefront),
   };
@@ -88,13 +223,31 @@ export const meta = ({ matches }: MetaArgs<typeof loader>) => {
   );
 };
 
-const POPULAR_SEARCHES = ["French Linen", "Shirt", "Cotton"];
-
 export default function Search() {
-  const { searchTerm, products, recommendations } =
-    useLoaderData<typeof loader>();
+  const {
+    searchTerm,
+    rewrittenTerm,
+    popularSearches,
+    suggestions,
+    tab,
+    counts,
+    products,
+    collections,
+    articles,
+    pages,
+    productFilters,
+    appliedFilters,
+    recommendations,
+  } = useLoaderData<typeof loader>();
   const [searchKey, setSearchKey] = useState(searchTerm);
-  const hasResults = products?.nodes?.length > 0;
+  const [gridSizeDesktop, setGridSizeDesktop] = useState(4);
+  const [gridSizeMobile, setGridSizeMobile] = useState(1);
+  const hasResults =
+    Object.values(counts).some(Boolean) || appliedFilters.length > 0;
+  const filtersData: FiltersData = {
+    filters: productFilters,
+    appliedFilters,
+  };
 
   useEffect(() => {
     setSearchKey(searchTerm);
@@ -104,22 +257,13 @@ export default function Search() {
     <Section width="fixed" verticalPadding="medium">
       <BreadCrumb className="justify-center" page="Search" />
       <h4 className="mt-4 mb-2.5 font-medium text-center">Search</h4>
-      <div className="flex items-center justify-center text-body-subtle">
-        <span>Popular Searches:</span>
-        {POPULAR_SEARCHES.map((search, ind) => (
-          <Fragment key={search}>
-            <Link
-              to={`/search?q=${search}`}
-              className="ml-1 hover:underline underline-offset-4"
-            >
-              {search}
-            </Link>
-            {ind < POPULAR_SEARCHES.length - 1 && (
-              <span className="mr-px">,</span>
-            )}
-          </Fragment>
-        ))}
-      </div>
+      <Suspense fallback={null}>
+        <Await resolve={popularSearches} errorElement={null}>
+          {(terms) => (
+            <SearchTermLinks label="Popular Searches:" terms={terms} />
+          )}
+        </Await>
+      </Suspense>
       <Form
         method="get"
         className="flex items-center gap-3 w-[700px] max-w-[90vw] mx-auto mt-6 border border-line px-3"
@@ -141,48 +285,70 @@ export default function Search() {
           <XIcon className="w-5 h-5" />
         </button>
       </Form>
+      {rewrittenTerm && hasResults && (
+        <p className="mt-6 text-center text-body-subtle">
+          Showing results for "<strong>{rewrittenTerm}</strong>"
+        </p>
+      )}
       {hasResults ? (
-        <Pagination connection={products}>
-          {({
-            nodes,
-            isLoading,
-            nextPageUrl,
-            hasNextPage,
-            previousPageUrl,
-            hasPreviousPage,
-          }) => {
-            return (
-              <div className="flex w-full flex-col gap-8 items-center pt-20">
-                {hasPreviousPage && (
-                  <Link
-                    to={previousPageUrl}
-                    variant="outline"
-                    className="mx-auto"
-                  >
-                    {isLoading ? "Loading..." : "Previous"}
-                  </Link>
-                )}
-                <div
-                  className={clsx([
-                    "w-full gap-x-1.5 gap-y-8 lg:gap-y-10",
-                    "grid grid-cols-1 lg:grid-cols-4",
-                  ])}
-                >
-                  {nodes.map((product) => (
-                    <ProductCard key={product.id} product={product} />
-                  ))}
+        <div className="pt-20 space-y-6 lg:space-y-10">
+          <SearchTabs searchTerm={searchTerm} activeTab={tab} counts={counts} />
+          {/* Keep the filters when no products match them, so they can be removed */}
+          {tab === "products" &&
+            (products.nodes.length > 0 || appliedFilters.length > 0 ? (
+              <div>
+                <ToolsBar
+                  productsCount={counts.products}
+                  filtersData={filtersData}
+                  sortParams={SEARCH_SORT_PARAMS}
+                  enableSort
+                  enableFilter
+                  filtersPosition="sidebar"
+                  showProductsCount
+                  expandFilters
+                  showFiltersCount
+                  gridSizeDesktop={gridSizeDesktop}
+                  gridSizeMobile={gridSizeMobile}
+                  onGridSizeChange={(v) => {
+                    if (v > 2) {
+                      setGridSizeDesktop(v);
+                    } else {
+                      setGridSizeMobile(v);
+                    }
+                  }}
+                />
+                <div className="flex gap-5 pt-6 lg:pt-12">
+                  <div className="hidden lg:block shrink-0 w-72">
+                    <div className="space-y-4 sticky top-[calc(var(--height-nav)+40px)]">
+                      <div className="font-bold">Filters</div>
+                      <Filters {...filtersData} />
+                    </div>
+                  </div>
+                  <ProductsPagination
+                    products={products}
+                    appliedFilters={appliedFilters}
+                    gridSizeDesktop={gridSizeDesktop}
+                    gridSizeMobile={gridSizeMobile}
+                    loadPrevText="Load previous"
+                    loadMoreText="Load more products"
+                  />
                 </div>
-                {hasNextPage && (
-                  <Link to={nextPageUrl} variant="outline" className="mx-auto">
-                    {isLoading ? "Loading..." : "Next"}
-                  </Link>
-                )}
               </div>
-            );
-          }}
-        </Pagination>
+            ) : (
+              <div className="flex text-lg justify-center my-10">
+                No products found.
+              </div>
+            ))}
+          {collections && <CollectionResults collections={collections} />}
+          {articles && <ArticleResults articles={articles} />}
+          {pages && <PageResults pages={pages} />}
+        </div>
       ) : (
-        <NoResults searchTerm={searchTerm} recommendations={recommendations} />
+        <NoResults
+          searchTerm={searchTerm}
+          suggestions={suggestions}
+          recommendations={recommendations}
+        />
       )}
       <Analytics.SearchView
         data={{ searchTerm: searchTerm || "", searchResults: products }}
@@ -191,18 +357,43 @@ export default function Search() {
   );
 }
 
+function SearchTermLinks({ label, terms }: { label: string; terms: string[] }) {
+  if (!terms.length) {
+    return null;
+  }
+  return (
+    <div className="flex items-center justify-center text-body-subtle">
+      <span>{label}</span>
+      {terms.map((term, ind) => (
+        <Fragment key={term}>
+          <Link
+            to={`/search?q=${encodeURIComponent(term)}`}
+            className="ml-1 hover:underline underline-offset-4"
+          >
+            {term}
+          </Link>
+          {ind < terms.length - 1 && <span className="mr-px">,</span>}
+        </Fragment>
+      ))}
+    </div>
+  );
+}
+
 function NoResults({
   searchTerm,
+  suggestions,
   recommendations,
 }: {
   searchTerm: string;
+  suggestions: string[];
   recommendations: Promise<null | FeaturedData>;
 }) {
   return (
     <>
       {searchTerm && (
-        <div className="flex text-lg flex-col items-center justify-center my-10">
-          No results for "{searchTerm}", try a different search.
+        <div className="flex text-lg flex-col items-center justify-center gap-2 my-10">
+          <span>No results for "{searchTerm}", try a different search.</span>
+          <SearchTermLinks label="Did you mean:" terms={suggestions} />
         </div>
       )}
       <Suspense>
@@ -236,40 +427,208 @@ function NoResults({
   );
 }
 
+function getSortValuesFromParam(sortParam: SortParam | null): {
+  sortKey: SearchSortKeys;
+  reverse: boolean;
+} {
+  switch (sortParam) {
+    case "price-high-low":
+      return {
+        sortKey: "PRICE",
+        reverse: true,
+      };
+    case "price-low-high":
+      return {
+        sortKey: "PRICE",
+        reverse: false,
+      };
+    default:
+      return {
+        sortKey: "RELEVANCE",
+        reverse: false,
+      };
+  }
+}
+
 function getRecommendations(
   storefront: LoaderFunctionArgs["context"]["storefront"],
 ) {
   return getFeaturedData(storefront, { pageBy: PAGINATION_SIZE });
 }
 
+type SearchResults<T> = {
+  nodes: T[];
+  pageInfo: typeof EMPTY_PAGE_INFO;
+};
+
+type ProductsConnection = SearchResults<ProductCardFragment>;
+
+const EMPTY_PAGE_INFO: {
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+  startCursor?: string | null;
+  endCursor?: string | null;
+} = {
+  hasNextPage: false,
+  hasPreviousPage: false,
+  startCursor: null,
+  endCursor: null,
+};
+
 const SEARCH_QUERY = `#graphql
+  fragment SearchCollection on Collection {
+    id
+    handle
+    title
+    image {
+      id
+      url
+      altText
+      width
+      height
+    }
+  }
+  fragment SearchArticle on Article {
+    __typename
+    id
+    handle
+    title
+    excerpt
+    image {
+      id
+      url
+      altText
+      width
+      height
+    }
+    blog {
+      handle
+    }
+  }
+  fragment SearchPage on Page {
+    __typename
+    id
+    handle
+    title
+    bodySummary
+  }
+  fragment SearchPageInfo on PageInfo {
+    startCursor
+    endCursor
+    hasNextPage
+    hasPreviousPage
+  }
   query search(
     $country: CountryCode
     $endCursor: String
     $first: Int
     $language: LanguageCode
     $last: Int
-    $searchTerm: String
+    $searchTerm: String!
     $startCursor: String
+    $filters: [ProductFilter!]
+    $sortKey: SearchSortKeys
+    $reverse: Boolean
+    $withProducts: Boolean!
+    $withCollections: Boolean!
+    $withArticles: Boolean!
+    $withPages: Boolean!
   ) @inContext(country: $country, language: $language) {
-    products(
+    products: search(
       first: $first,
       last: $last,
       before: $startCursor,
       after: $endCursor,
-      sortKey: RELEVANCE,
-      query: $searchTerm
-    ) {
+      query: $searchTerm,
+      types: [PRODUCT],
+      productFilters: $filters,
+      sortKey: $sortKey,
+      reverse: $reverse,
+      unavailableProducts: LAST
+    ) @include(if: $withProducts) {
+      totalCount
+      productFilters {
+        id
+        label
+        type
+        values {
+          id
+          label
+          count
+          input
+        }
+      }
       nodes {
+        __typename
         ...ProductCard
       }
       pageInfo {
-        startCursor
-        endCursor
-        hasNextPage
-        hasPreviousPage
+        ...SearchPageInfo
+      }
+    }
+    productsCount: search(first: 1, query: $searchTerm, types: [PRODUCT])
+      @skip(if: $withProducts) {
+      totalCount
+    }
+    collections(
+      first: $first,
+      last: $last,
+      before: $startCursor,
+      after: $endCursor,
+      query: $searchTerm
+    ) @include(if: $withCollections) {
+      totalCount
+      nodes {
+        ...SearchCollection
+      }
+      pageInfo {
+        ...SearchPageInfo
       }
     }
+    collectionsCount: collections(first: 1, query: $searchTerm)
+      @skip(if: $withCollections) {
+      totalCount
+    }
+    articles: search(
+      first: $first,
+      last: $last,
+      before: $startCursor,
+      after: $endCursor,
+      query: $searchTerm,
+      types: [ARTICLE]
+    ) @include(if: $withArticles) {
+      totalCount
+      nodes {
+        ...SearchArticle
+      }
+      pageInfo {
+        ...SearchPageInfo
+      }
+    }
+    articlesCount: search(first: 1, query: $searchTerm, types: [ARTICLE])
+      @skip(if: $withArticles) {
+      totalCount
+    }
+    pages: search(
+      first: $first,
+      last: $last,
+      before: $startCursor,
+      after: $endCursor,
+      query: $searchTerm,
+      types: [PAGE]
+    ) @include(if: $withPages) {
+      totalCount
+      nodes {
+        ...SearchPage
+      }
+      pageInfo {
+        ...SearchPageInfo
+      }
+    }
+    pagesCount: search(first: 1, query: $searchTerm, types: [PAGE])
+      @skip(if: $withPages) {
+      totalCount
+    }
   }
   ${PRODUCT_CARD_FRAGMENT}
 ` as const;
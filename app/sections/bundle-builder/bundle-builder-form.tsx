@@ -0,0 +1,238 @@
+import { CheckIcon } from "@phosphor-icons/react";
+import { CartForm, Money } from "@shopify/hydrogen";
+import type { CurrencyCode } from "@shopify/hydrogen/storefront-api-types";
+import clsx from "clsx";
+import { useCallback, useEffect, useState } from "react";
+import type { FetcherWithComponents } from "react-router";
+import { Button } from "~/components/button";
+import { Image } from "~/components/image";
+import { toggleCartDrawer } from "~/components/layout/cart-drawer";
+import {
+  BUNDLE_ID_ATTRIBUTE,
+  BUNDLE_NAME_ATTRIBUTE,
+  createBundleId,
+  getDiscountCodeAttributes,
+} from "~/utils/cart";
+import type { BundleProduct } from ".";
+
+type BundleVariant = BundleProduct["variants"]["nodes"][0];
+
+export function BundleBuilderForm({
+  bundleName,
+  products,
+  minItems,
+  maxItems,
+  discountCode,
+  discountText,
+  addToCartText,
+}: {
+  bundleName: string;
+  products: BundleProduct[];
+  minItems: number;
+  maxItems: number;
+  discountCode?: string;
+  discountText?: string;
+  addToCartText: string;
+}) {
+  // Picked variant by product id
+  const [picks, setPicks] = useState<Record<string, BundleVariant>>({});
+  // Generated on the client only to keep the server & client markup in sync
+  const [bundleId, setBundleId] = useState("");
+  useEffect(() => {
+    setBundleId(createBundleId());
+  }, []);
+  const resetBundle = useCallback(() => {
+    setPicks({});
+    setBundleId(createBundleId());
+  }, []);
+
+  const pickedVariants = Object.values(picks);
+  const count = pickedVariants.length;
+  const isFull = count >= maxItems;
+  const total = pickedVariants.reduce(
+    (sum, variant) => sum + Number(variant.price.amount),
+    0,
+  );
+  const currencyCode = (pickedVariants[0]?.price.currencyCode ||
+    products[0]?.variants.nodes[0]?.price.currencyCode) as CurrencyCode;
+
+  function togglePick(productId: string, variant?: BundleVariant) {
+    const { [productId]: _, ...rest } = picks;
+    setPicks(variant ? { ...rest, [productId]: variant } : rest);
+  }
+
+  return (
+    <div className="space-y-8">
+      <ul className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-x-4 gap-y-8">
+        {products.map((product) => (
+          <BundleProductCard
+            key={product.id}
+            product={product}
+            picked={picks[product.id]}
+            disabled={isFull && !picks[product.id]}
+            onChange={(variant) => togglePick(product.id, variant)}
+          />
+        ))}
+      </ul>
+      <div
+        className="sticky bottom-0 flex flex-wrap items-center justify-between gap-4 p-4 border-t border-line-subtle bg-background"
+        data-test="bundle-summary"
+      >
+        <div className="space-y-1">
+          <div className="font-medium">
+            {count}/{maxItems} items selected
+            {count > 0 && (
+              <>
+                {" · "}
+                <Money
+                  as="span"
+                  withoutTrailingZeros
+                  data={{ amount: total.toFixed(2), currencyCode }}
+                />
+              </>
+            )}
+          </div>
+          <p className="text-sm text-body-subtle">
+            {count < minItems
+              ? `Pick at least ${minItems} items`
+              : discountCode && discountText}
+          </p>
+        </div>
+        <CartForm
+          route="/cart"
+          action={CartForm.ACTIONS.LinesAdd}
+          inputs={{
+            lines: pickedVariants.map((variant) => ({
+              merchandiseId: variant.id,
+              quantity: 1,
+              selectedVariant: variant,
+              attributes: [
+                { key: BUNDLE_ID_ATTRIBUTE, value: bundleId },
+                { key: BUNDLE_NAME_ATTRIBUTE, value: bundleName },
+                ...(discountCode?.trim()
+                  ? getDiscountCodeAttributes(discountCode.trim())
+                  : []),
+              ],
+            })),
+            discountCode: discountCode?.trim() || undefined,
+          }}
+        >
+          {(fetcher: FetcherWithComponents<any>) => (
+            <>
+              <ResetOnAdd fetcher={fetcher} onReset={resetBundle} />
+              <Button
+                type="submit"
+                disabled={
+                  count < minItems || !bundleId || fetcher.state !== "idle"
+                }
+                loading={fetcher.state !== "idle"}
+                onClick={() => toggleCartDrawer(true)}
+                data-test="add-bundle-to-cart"
+              >
+                {addToCartText}
+              </Button>
+            </>
+          )}
+        </CartForm>
+      </div>
+    </div>
+  );
+}
+
+function BundleProductCard({
+  product,
+  picked,
+  disabled,
+  onChange,
+}: {
+  product: BundleProduct;
+  picked?: BundleVariant;
+  disabled: boolean;
+  onChange: (variant?: BundleVariant) => void;
+}) {
+  const variants = product.variants.nodes;
+  const [variantId, setVariantId] = useState(
+    (variants.find((v) => v.availableForSale) || variants[0])?.id,
+  );
+  const variant = variants.find((v) => v.id === variantId);
+  const image = variant?.image || product.featuredImage;
+  const isAvailable = Boolean(variant?.availableForSale);
+
+  function selectVariant(id: string) {
+    setVariantId(id);
+    if (picked) {
+      onChange(variants.find((v) => v.id === id));
+    }
+  }
+
+  return (
+    <li className={clsx("space-y-3 text-sm", picked && "font-medium")}>
+      <button
+        type="button"
+        aria-pressed={Boolean(picked)}
+        disabled={!isAvailable || disabled}
+        onClick={() => onChange(picked ? undefined : variant)}
+        className={clsx(
+          "relative block w-full aspect-square bg-gray-100 border-2 disabled:opacity-50",
+          picked ? "border-body" : "border-transparent",
+        )}
+      >
+        {image && (
+          <Image
+            data={image}
+            width={500}
+            className="absolute inset-0 h-full"
+            alt={image.altText || product.title}
+          />
+        )}
+        {picked && (
+          <span className="absolute top-2 right-2 flex items-center justify-center w-6 h-6 bg-body text-background">
+            <CheckIcon aria-hidden="true" className="w-4 h-4" />
+          </span>
+        )}
+        <span className="sr-only">
+          {picked ? `Remove ${product.title}` : `Add ${product.title}`}
+        </span>
+      </button>
+      <div className="flex justify-between gap-2">
+        <span>{product.title}</span>
+        {variant && <Money withoutTrailingZeros data={variant.price} />}
+      </div>
+      {variants.length > 1 && (
+        <select
+          aria-label={`${product.title} options`}
+          value={variantId}
+          onChange={(e) => selectVariant(e.currentTarget.value)}
+          className="w-full p-2 border border-line rounded-none"
+        >
+          {variants.map((v) => (
+            <option key={v.id} value={v.id} disabled={!v.availableForSale}>
+              {v.title}
+              {v.availableForSale ? "" : " - Sold out"}
+            </option>
+          ))}
+        </select>
+      )}
+      {!isAvailable && <p className="text-body-subtle">Sold out</p>}
+    </li>
+  );
+}
+
+/**
+ * Start a new bundle once the current one is added to the cart
+ */
+function ResetOnAdd({
+  fetcher,
+  onReset,
+}: {
+  fetcher: FetcherWithComponents<any>;
+  onReset: () => void;
+}) {
+  const { state, data } = fetcher;
+  useEffect(() => {
+    if (state === "idle" && data && !data.userErrors?.length) {
+      onReset();
+    }
+  }, [state, data, onReset]);
+  return null;
+}
@@ -0,0 +1,202 @@
+import {
+  type ComponentLoaderArgs,
+  createSchema,
+  type WeaverseCollection,
+} from "@weaverse/hydrogen";
+import { forwardRef } from "react";
+import type { BundleBuilderProductsQuery } from "storefront-api.generated";
+import type { SectionProps } from "~/components/section";
+import { layoutInputs, Section } from "~/components/section";
+import { PRODUCT_VARIANT_FRAGMENT } from "~/graphql/fragments";
+import { BundleBuilderForm } from "./bundle-builder-form";
+
+interface BundleBuilderData {
+  collection: WeaverseCollection;
+  productsCount: number;
+  minItems: number;
+  maxItems: number;
+  discountCode: string;
+  discountText: string;
+  addToCartText: string;
+}
+
+interface BundleBuilderProps
+  extends SectionProps<BundleBuilderLoaderData>,
+    BundleBuilderData {}
+
+const BundleBuilder = forwardRef<HTMLElement, BundleBuilderProps>(
+  (props, ref) => {
+    const {
+      loaderData,
+      children,
+      collection,
+      productsCount,
+      minItems,
+      maxItems,
+      discountCode,
+      discountText,
+      addToCartText,
+      ...rest
+    } = props;
+    const products = loaderData?.collection?.products.nodes ?? [];
+
+    return (
+      <Section ref={ref} {...rest}>
+        {children}
+        {products.length > 0 ? (
+          <BundleBuilderForm
+            bundleName={loaderData?.collection?.title || "Bundle"}
+            products={products}
+            minItems={Math.min(minItems, maxItems)}
+            maxItems={maxItems}
+            discountCode={discountCode}
+            discountText={discountText}
+            addToCartText={addToCartText}
+          />
+        ) : (
+          <p className="text-center text-body-subtle">
+            Select a collection to build the bundle from.
+          </p>
+        )}
+      </Section>
+    );
+  },
+);
+
+export default BundleBuilder;
+
+const BUNDLE_BUILDER_PRODUCTS_QUERY = `#graphql
+  query bundleBuilderProducts(
+    $handle: String!
+    $count: Int!
+    $country: CountryCode
+    $language: LanguageCode
+  ) @inContext(country: $country, language: $language) {
+    collection(handle: $handle) {
+      id
+      title
+      products(first: $count) {
+        nodes {
+          id
+          title
+          handle
+          featuredImage {
+            id
+            url
+            altText
+            width
+            height
+          }
+          variants(first: 50) {
+            nodes {
+              ...ProductVariant
+            }
+          }
+        }
+      }
+    }
+  }
+  ${PRODUCT_VARIANT_FRAGMENT}
+` as const;
+
+export type BundleBuilderLoaderData = Awaited<ReturnType<typeof loader>>;
+
+export type BundleProduct = NonNullable<
+  BundleBuilderProductsQuery["collection"]
+>["products"]["nodes"][0];
+
+export const loader = async ({
+  data,
+  weaverse,
+}: ComponentLoaderArgs<BundleBuilderData>) => {
+  const { storefront } = weaverse;
+  if (!data.collection?.handle) {
+    return null;
+  }
+  return await storefront.query<BundleBuilderProductsQuery>(
+    BUNDLE_BUILDER_PRODUCTS_QUERY,
+    {
+      variables: {
+        handle: data.collection.handle,
+        count: data.productsCount || 12,
+        country: storefront.i18n.country,
+        language: storefront.i18n.language,
+      },
+    },
+  );
+};
+
+export const schema = createSchema({
+  type: "bundle-builder",
+  title: "Bundle builder",
+  childTypes: ["heading", "subheading", "paragraph"],
+  settings: [
+    {
+      group: "Layout",
+      inputs: layoutInputs.filter((i) => i.name !== "borderRadius"),
+    },
+    {
+      group: "Bundle",
+      inputs: [
+        {
+          type: "collection",
+          name: "collection",
+          label: "Collection",
+          shouldRevalidate: true,
+        },
+        {
+          type: "range",
+          name: "productsCount",
+          label: "Number of products",
+          configs: { min: 2, max: 24, step: 1 },
+          defaultValue: 12,
+          shouldRevalidate: true,
+        },
+        {
+          type: "range",
+          name: "minItems",
+          label: "Minimum items",
+          configs: { min: 1, max: 10, step: 1 },
+          defaultValue: 2,
+        },
+        {
+          type: "range",
+          name: "maxItems",
+          label: "Maximum items",
+          configs: { min: 1, max: 10, step: 1 },
+          defaultValue: 4,
+        },
+        {
+          type: "text",
+          name: "discountCode",
+          label: "Bundle discount code",
+          placeholder: "BUNDLE10",
+          helpText:
+            "Applied to the cart when the bundle is added. Create the discount in your Shopify admin.",
+        },
+        {
+          type: "text",
+          name: "discountText",
+          label: "Discount text",
+          defaultValue: "Save 10% when you build your bundle",
+        },
+        {
+          type: "text",
+          name: "addToCartText",
+          label: "Add to cart text",
+          defaultValue: "Add bundle to cart",
+        },
+      ],
+    },
+  ],
+  presets: {
+    gap: 32,
+    children: [
+      { type: "heading", content: "Build your bundle" },
+      {
+        type: "paragraph",
+        content: "Pick your favorites and add them to your cart at once.",
+      },
+    ],
+  },
+});
@@ -3,8 +3,7 @@ import * as Accordion from "@radix-ui/react-accordion";
 import type { Filter } from "@shopify/hydrogen/storefront-api-types";
 import clsx from "clsx";
 import { useRef } from "react";
-import { useLoaderData } from "react-router";
-import type { CollectionQuery } from "storefront-api.generated";
+import { useLocation } from "react-router";
 import { OPTIONS_AS_SWATCH } from "~/components/product/product-option-values";
 import { ScrollArea } from "~/components/scroll-area";
 import { useClosestWeaverseItem } from "~/hooks/use-closest-weaverse-item";
@@ -12,37 +11,56 @@ import { cn } from "~/utils/cn";
 import type { AppliedFilter } from "~/utils/filter";
 import type { CollectionFiltersData } from ".";
 import { FilterItem } from "./filter-item";
-import { PriceRangeFilter } from "./price-range-filter";
+import {
+  getPricesRangeFromFilter,
+  type PriceRange,
+  PriceRangeFilter,
+} from "./price-range-filter";
 
-export function Filters({ className }: { className?: string }) {
+export interface FiltersData {
+  filters: Filter[];
+  appliedFilters: AppliedFilter[];
+  /** Defaults to the range of the price filter */
+  priceRange?: PriceRange;
+}
+
+// Used outside of a collection filters section, e.g. on the search page
+const DEFAULT_FILTERS_SETTINGS: Pick<
+  CollectionFiltersData,
+  "expandFilters" | "showFiltersCount" | "enableSwatches" | "displayAsButtonFor"
+> = {
+  expandFilters: true,
+  showFiltersCount: true,
+  enableSwatches: true,
+  displayAsButtonFor: "Size, More filters",
+};
+
+export function Filters({
+  className,
+  filters,
+  appliedFilters,
+  priceRange,
+}: FiltersData & { className?: string }) {
   const ref = useRef<HTMLDivElement>(null);
+  const { pathname } = useLocation();
   const parentInstance = useClosestWeaverseItem(ref);
-  const parentData = parentInstance.data as unknown as CollectionFiltersData;
+  const parentData = parentInstance?.data as unknown as CollectionFiltersData;
   const {
     expandFilters,
     showFiltersCount,
     enableSwatches,
     displayAsButtonFor,
-  } = parentData;
-  const { collection, appliedFilters } = useLoaderData<
-    CollectionQuery & {
-      collections: Array<{ handle: string; title: string }>;
-      appliedFilters: AppliedFilter[];
-    }
-  >();
+  } = { ...DEFAULT_FILTERS_SETTINGS, ...parentData };
   const appliedFiltersKeys = appliedFilters
     .map((filter) => filter.label)
     .join("-");
-  const filters = collection.products.filters as Filter[];
 
   return (
     <ScrollArea className="h-[calc(100vh-var(--height-nav)-100px)]">
       <Accordion.Root
         type="multiple"
         className={cn("divide-y divide-line-subtle pr-3", className)}
-        key={
-          collection.id + appliedFiltersKeys + expandFilters + showFiltersCount
-        }
+        key={pathname + appliedFiltersKeys + expandFilters + showFiltersCount}
         defaultValue={expandFilters ? filters.map((filter) => filter.id) : []}
       >
         {filters.map((filter: Filter) => {
@@ -86,7 +104,9 @@ export function Filters({ className }: { className?: string }) {
                 >
                   {filter.type === "PRICE_RANGE" ? (
                     <PriceRangeFilter
-                      collection={collection as CollectionQuery["collection"]}
+                      priceRange={
+                        priceRange || getPricesRangeFromFilter(filter)
+                      }
                     />
                   ) : (
                     filter.values?.map((option) => (
@@ -99,7 +119,7 @@ export function Filters({ className }: { className?: string }) {
                               ? "button"
                               : "list-item"
                         }
-                        appliedFilters={appliedFilters as AppliedFilter[]}
+                        appliedFilters={appliedFilters}
                         option={option}
                         showFiltersCount={showFiltersCount}
                       />
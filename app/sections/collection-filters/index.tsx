@@ -1,3 +1,4 @@
+import type { Filter } from "@shopify/hydrogen/storefront-api-types";
 import { createSchema } from "@weaverse/hydrogen";
 import clsx from "clsx";
 import { forwardRef, useEffect, useState } from "react";
@@ -6,7 +7,9 @@ import type { CollectionQuery } from "storefront-api.generated";
 import { BreadCrumb } from "~/components/breadcrumb";
 import { Image } from "~/components/image";
 import { layoutInputs, Section, type SectionProps } from "~/components/section";
-import { Filters } from "./filters";
+import type { AppliedFilter } from "~/utils/filter";
+import { Filters, type FiltersData } from "./filters";
+import { getPricesRange } from "./price-range-filter";
 import { ProductsPagination } from "./products-pagination";
 import { ToolsBar } from "./tools-bar";
 
@@ -56,9 +59,10 @@ const CollectionFilters = forwardRef<HTMLElement, CollectionFiltersProps>(
       loadMoreText,
       ...rest
     } = props;
-    const { collection, collections } = useLoaderData<
+    const { collection, collections, appliedFilters } = useLoaderData<
       CollectionQuery & {
         collections: Array<{ handle: string; title: string }>;
+        appliedFilters: AppliedFilter[];
       }
     >();
 
@@ -78,6 +82,11 @@ const CollectionFilters = forwardRef<HTMLElement, CollectionFiltersProps>(
       const banner = collection.metafield
         ? collection.metafield.reference.image
         : collection.image;
+      const filtersData: FiltersData = {
+        filters: collection.products.filters as Filter[],
+        appliedFilters,
+        priceRange: getPricesRange(collection),
+      };
       return (
         <Section ref={ref} {...rest} overflow="unset">
           <div className="py-10">
@@ -110,6 +119,8 @@ const CollectionFilters = forwardRef<HTMLElement, CollectionFiltersProps>(
             )}
           </div>
           <ToolsBar
+            productsCount={collection.products.nodes.length}
+            filtersData={filtersData}
             width={rest.width}
             gridSizeDesktop={gridSizeDesktop}
             gridSizeMobile={gridSizeMobile}
@@ -127,11 +138,13 @@ const CollectionFilters = forwardRef<HTMLElement, CollectionFiltersProps>(
               <div className="hidden lg:block shrink-0 w-72">
                 <div className="space-y-4 sticky top-[calc(var(--height-nav)+40px)]">
                   <div className="font-bold">Filters</div>
-                  <Filters />
+                  <Filters {...filtersData} />
                 </div>
               </div>
             )}
             <ProductsPagination
+              products={collection.products}
+              appliedFilters={appliedFilters}
               gridSizeDesktop={gridSizeDesktop}
               gridSizeMobile={gridSizeMobile}
               loadPrevText={loadPrevText}
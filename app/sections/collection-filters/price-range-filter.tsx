@@ -1,23 +1,27 @@
 import * as Slider from "@radix-ui/react-slider";
 import * as VisuallyHidden from "@radix-ui/react-visually-hidden";
-import type { ProductFilter } from "@shopify/hydrogen/storefront-api-types";
+import type {
+  Filter,
+  ProductFilter,
+} from "@shopify/hydrogen/storefront-api-types";
 import clsx from "clsx";
 import { useRef, useState } from "react";
 import { useLocation, useNavigate, useSearchParams } from "react-router";
 import type { CollectionQuery } from "storefront-api.generated";
 import { FILTER_URL_PREFIX, filterInputToParams } from "~/utils/filter";
 
-export function PriceRangeFilter({
-  collection,
-}: {
-  collection: CollectionQuery["collection"];
-}) {
+export type PriceRange = {
+  minVariantPrice: number;
+  maxVariantPrice: number;
+};
+
+export function PriceRangeFilter({ priceRange }: { priceRange: PriceRange }) {
   const [params] = useSearchParams();
   const location = useLocation();
   const navigate = useNavigate();
   const thumbRef = useRef<"from" | "to" | null>(null);
 
-  const { minVariantPrice, maxVariantPrice } = getPricesRange(collection);
+  const { minVariantPrice, maxVariantPrice } = priceRange;
   const { min, max } = getPricesFromFilter(params);
 
   const [minPrice, setMinPrice] = useState(min);
@@ -142,7 +146,9 @@ export function PriceRangeFilter({
   );
 }
 
-function getPricesRange(collection: CollectionQuery["collection"]) {
+export function getPricesRange(
+  collection: CollectionQuery["collection"],
+): PriceRange {
   const { highestPriceProduct, lowestPriceProduct } = collection;
   const minVariantPrice =
     lowestPriceProduct.nodes[0]?.priceRange?.minVariantPrice;
@@ -154,6 +160,24 @@ function getPricesRange(collection: CollectionQuery["collection"]) {
   };
 }
 
+/**
+ * Prices range of a `PRICE_RANGE` filter, e.g. from the search results
+ * which have no highest/lowest priced products to query
+ */
+export function getPricesRangeFromFilter(filter: Filter): PriceRange {
+  let price: ProductFilter["price"];
+  try {
+    price = (JSON.parse(filter.values[0]?.input as string) as ProductFilter)
+      .price;
+  } catch {
+    price = undefined;
+  }
+  return {
+    minVariantPrice: Number(price?.min) || 0,
+    maxVariantPrice: Number(price?.max) || 1000,
+  };
+}
+
 function getPricesFromFilter(params: URLSearchParams) {
   const priceFilter = params.get(`${FILTER_URL_PREFIX}price`);
   const price = priceFilter
@@ -3,40 +3,39 @@ import { Pagination } from "@shopify/hydrogen";
 import clsx from "clsx";
 import { useEffect } from "react";
 import { useInView } from "react-intersection-observer";
-import {
-  useLoaderData,
-  useLocation,
-  useNavigate,
-  useSearchParams,
-} from "react-router";
+import { useLocation, useNavigate, useSearchParams } from "react-router";
 import type {
   CollectionQuery,
   ProductCardFragment,
 } from "storefront-api.generated";
 import Link from "~/components/link";
 import { ProductCard } from "~/components/product/product-card";
-import { type AppliedFilter, getAppliedFilterLink } from "~/utils/filter";
+import {
+  type AppliedFilter,
+  getAppliedFilterLink,
+  getClearFiltersLink,
+} from "~/utils/filter";
 
 export function ProductsPagination({
+  products,
+  appliedFilters,
   gridSizeDesktop: desktopCols = 3,
   gridSizeMobile: mobileCols = 1,
   loadPrevText,
   loadMoreText,
 }: {
+  products: Pick<
+    CollectionQuery["collection"]["products"],
+    "nodes" | "pageInfo"
+  >;
+  appliedFilters: AppliedFilter[];
   gridSizeDesktop: number;
   gridSizeMobile: number;
   loadPrevText: string;
   loadMoreText: string;
 }) {
-  const { collection, appliedFilters } = useLoaderData<
-    CollectionQuery & {
-      collections: Array<{ handle: string; title: string }>;
-      appliedFilters: AppliedFilter[];
-    }
-  >();
   const [params] = useSearchParams();
   const location = useLocation();
-  const { pathname } = location;
   const { ref, inView } = useInView();
 
   return (
@@ -62,7 +61,7 @@ export function ProductsPagination({
           </div>
           {appliedFilters.length > 1 ? (
             <Link
-              to={pathname}
+              to={getClearFiltersLink(params, location)}
               variant="underline"
               aria-label="Clear all applied filters"
               preventScrollReset
@@ -72,8 +71,8 @@ export function ProductsPagination({
           ) : null}
         </div>
       ) : null}
-      {collection.products.nodes.length > 0 ? (
-        <Pagination connection={collection.products}>
+      {products.nodes.length > 0 ? (
+        <Pagination connection={products}>
           {({
             nodes,
             isLoading,
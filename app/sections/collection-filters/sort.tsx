@@ -29,12 +29,19 @@ const SORT_LIST: { label: string; key: SortParam }[] = [
   },
 ];
 
-export function Sort() {
+export function Sort({
+  sortParams,
+}: {
+  /** The available sort options, defaults to all of them */
+  sortParams?: SortParam[];
+}) {
   const [searchParams] = useSearchParams();
   const location = useLocation();
+  const sortList = sortParams
+    ? SORT_LIST.filter(({ key }) => sortParams.includes(key))
+    : SORT_LIST;
   const currentSort =
-    SORT_LIST.find(({ key }) => key === searchParams.get("sort")) ||
-    SORT_LIST[0];
+    sortList.find(({ key }) => key === searchParams.get("sort")) || sortList[0];
   const params = new URLSearchParams(searchParams);
 
   return (
@@ -52,7 +59,7 @@ export function Sort() {
           align="end"
           className="flex h-fit w-44 flex-col gap-2 border border-line-subtle bg-background p-5"
         >
-          {SORT_LIST.map(({ key, label }) => {
+          {sortList.map(({ key, label }) => {
             params.set("sort", key);
             return (
               <DropdownMenu.Item key={key} asChild>
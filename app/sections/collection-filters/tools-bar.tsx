@@ -1,16 +1,18 @@
 import { SlidersIcon, XIcon } from "@phosphor-icons/react";
 import * as Dialog from "@radix-ui/react-dialog";
 import clsx from "clsx";
-import { useLoaderData } from "react-router";
-import type { CollectionQuery } from "storefront-api.generated";
 import { Button } from "~/components/button";
 import { ScrollArea } from "~/components/scroll-area";
 import { cn } from "~/utils/cn";
-import { Filters } from "./filters";
+import type { SortParam } from "~/utils/filter";
+import { Filters, type FiltersData } from "./filters";
 import { LayoutSwitcher, type LayoutSwitcherProps } from "./layout-switcher";
 import { Sort } from "./sort";
 
 interface ToolsBarProps extends LayoutSwitcherProps {
+  productsCount: number;
+  filtersData: FiltersData;
+  sortParams?: SortParam[];
   enableSort: boolean;
   showProductsCount: boolean;
   enableFilter: boolean;
@@ -20,6 +22,9 @@ interface ToolsBarProps extends LayoutSwitcherProps {
 }
 
 export function ToolsBar({
+  productsCount,
+  filtersData,
+  sortParams,
   enableSort,
   enableFilter,
   filtersPosition,
@@ -28,7 +33,6 @@ export function ToolsBar({
   gridSizeMobile,
   onGridSizeChange,
 }: ToolsBarProps) {
-  const { collection } = useLoaderData<CollectionQuery>();
   return (
     <div className="border-y border-line-subtle py-4">
       <div className="gap-4 md:gap-8 flex w-full items-center justify-between">
@@ -39,14 +43,17 @@ export function ToolsBar({
         />
         {showProductsCount && (
           <span className="text-center hidden md:inline">
-            {collection?.products.nodes.length} products
+            {productsCount} products
           </span>
         )}
         {(enableSort || (enableFilter && filtersPosition === "drawer")) && (
           <div className="flex gap-2">
-            {enableSort && <Sort />}
+            {enableSort && <Sort sortParams={sortParams} />}
             {enableFilter && (
-              <FiltersDrawer filtersPosition={filtersPosition} />
+              <FiltersDrawer
+                filtersPosition={filtersPosition}
+                filtersData={filtersData}
+              />
             )}
           </div>
         )}
@@ -57,8 +64,10 @@ export function ToolsBar({
 
 function FiltersDrawer({
   filtersPosition,
+  filtersData,
 }: {
   filtersPosition: ToolsBarProps["filtersPosition"];
+  filtersData: FiltersData;
 }) {
   return (
     <Dialog.Root>
@@ -103,7 +112,7 @@ function FiltersDrawer({
               </Dialog.Close>
             </div>
             <ScrollArea className="max-h-[calc(100vh-4.5rem)]" size="sm">
-              <Filters className="px-4" />
+              <Filters className="px-4" {...filtersData} />
             </ScrollArea>
           </div>
         </Dialog.Content>
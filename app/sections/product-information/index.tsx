@@ -9,25 +9,46 @@ import type { MoneyV2 } from "@shopify/hydrogen/storefront-api-types";
 import { createSchema } from "@weaverse/hydrogen";
 import clsx from "clsx";
 import { forwardRef, useState } from "react";
+import { useInView } from "react-intersection-observer";
 import { useLoaderData } from "react-router";
+import { Button } from "~/components/button";
 import { CompareAtPrice } from "~/components/compare-at-price";
 import { Link } from "~/components/link";
 import { AddToCartButton } from "~/components/product/add-to-cart-button";
+import { BackInStockForm } from "~/components/product/back-in-stock-form";
 import {
   BestSellerBadge,
   NewBadge,
   SaleBadge,
 } from "~/components/product/badges";
+import {
+  PersonalizationFields,
+  usePersonalization,
+} from "~/components/product/personalization-fields";
 import {
   ProductMedia,
   type ProductMediaProps,
 } from "~/components/product/product-media";
 import { Quantity } from "~/components/product/quantity";
+import { QuantityBreaks } from "~/components/product/quantity-breaks";
+import {
+  SellingPlanSelector,
+  useSellingPlan,
+} from "~/components/product/selling-plan-selector";
 import { ProductVariants } from "~/components/product/variants";
+import { WishlistButton } from "~/components/product/wishlist-button";
 import { layoutInputs, Section, type SectionProps } from "~/components/section";
 import type { loader as productRouteLoader } from "~/routes/($locale).products.$productHandle";
-import { isDiscounted } from "~/utils/product";
+import { getDiscountCodeAttributes } from "~/utils/cart";
+import {
+  getQuantityBreak,
+  getQuantityBreakPrice,
+  getSellingPlanPrice,
+  isDiscounted,
+  parseQuantityBreaks,
+} from "~/utils/product";
 import { ProductDetails } from "./product-details";
+import { StickyAddToCart } from "./sticky-add-to-cart";
 
 interface ProductInformationProps
   extends SectionProps,
@@ -39,11 +60,15 @@ interface ProductInformationProps
   showShortDescription: boolean;
   showShippingPolicy: boolean;
   showRefundPolicy: boolean;
+  sizeGuideOption: string;
+  showStickyAddToCart: boolean;
+  stickyAddToCartPosition: "top" | "bottom";
 }
 
 const ProductInformation = forwardRef<HTMLDivElement, ProductInformationProps>(
   (props, ref) => {
-    const { product, storeDomain } = useLoaderData<typeof productRouteLoader>();
+    const { product, storeDomain, sizeChart } =
+      useLoaderData<typeof productRouteLoader>();
 
     // Optimistically selects a variant with given available variant information
     const selectedVariant = useOptimisticVariant(
@@ -65,15 +90,25 @@ const ProductInformation = forwardRef<HTMLDivElement, ProductInformationProps>(
       showShortDescription,
       showShippingPolicy,
       showRefundPolicy,
+      sizeGuideOption,
+      showStickyAddToCart,
+      stickyAddToCartPosition,
       mediaLayout,
       gridSize,
       imageAspectRatio,
       showThumbnails,
       children,
       enableZoom,
+      mediaFilter,
       ...rest
     } = props;
     const [quantity, setQuantity] = useState<number>(1);
+    const [sellingPlan, setSellingPlanId] = useSellingPlan(product);
+    const personalization = usePersonalization(product);
+    // Only once scrolled past the buy box, not before reaching it
+    const { ref: buyBoxRef, entry } = useInView();
+    const isBuyBoxScrolledPast =
+      entry && !entry.isIntersecting && entry.boundingClientRect.top < 0;
 
     if (product) {
       const {
@@ -86,6 +121,42 @@ const ProductInformation = forwardRef<HTMLDivElement, ProductInformationProps>(
         badges,
       } = product;
 
+      const sellingPlanPrice =
+        sellingPlan && selectedVariant
+          ? getSellingPlanPrice(selectedVariant.price, sellingPlan)
+          : null;
+
+      // Variant tiers take precedence over the product ones
+      const quantityBreaks = parseQuantityBreaks(
+        selectedVariant?.quantityBreaks?.value || product.quantityBreaks?.value,
+      );
+      const quantityBreak = getQuantityBreak(quantityBreaks, quantity);
+      const discountedPrice =
+        quantityBreak && selectedVariant
+          ? getQuantityBreakPrice(
+              sellingPlanPrice || selectedVariant.price,
+              quantityBreak,
+            )
+          : sellingPlanPrice;
+
+      const addToCartLines = [
+        {
+          merchandiseId: selectedVariant.id,
+          quantity,
+          selectedVariant,
+          sellingPlanId: sellingPlan?.id,
+          attributes: quantityBreak
+            ? [
+                ...personalization.attributes,
+                ...getDiscountCodeAttributes(
+                  quantityBreak.code,
+                  quantityBreak.quantity,
+                ),
+              ]
+            : personalization.attributes,
+        },
+      ];
+
       const isBestSellerProduct = badges
         .filter(Boolean)
         .some(({ key, value }) => key === "best_seller" && value === "true");
@@ -108,6 +179,7 @@ const ProductInformation = forwardRef<HTMLDivElement, ProductInformationProps>(
               selectedVariant={selectedVariant}
               showThumbnails={showThumbnails}
               enableZoom={enableZoom}
+              mediaFilter={mediaFilter}
             />
             <div>
               <div
@@ -138,9 +210,34 @@ const ProductInformation = forwardRef<HTMLDivElement, ProductInformationProps>(
                   {showVendor && vendor && (
                     <span className="text-body-subtle">{vendor}</span>
                   )}
-                  <h1 className="h3 tracking-tight!">{title}</h1>
+                  <div className="flex items-start justify-between gap-4">
+                    <h1 className="h3 tracking-tight!">{title}</h1>
+                    <WishlistButton
+                      productId={product.id}
+                      productTitle={title}
+                      className="shrink-0"
+                    />
+                  </div>
                 </div>
-                {selectedVariant ? (
+                {selectedVariant && discountedPrice ? (
+                  <div className="flex items-center gap-2">
+                    <Money
+                      withoutTrailingZeros
+                      data={discountedPrice as MoneyV2}
+                      as="span"
+                      className="font-medium text-2xl/none"
+                    />
+                    {isDiscounted(
+                      discountedPrice as MoneyV2,
+                      selectedVariant.price as MoneyV2,
+                    ) && (
+                      <CompareAtPrice
+                        data={selectedVariant.price as MoneyV2}
+                        className="text-2xl/none"
+                      />
+                    )}
+                  </div>
+                ) : selectedVariant ? (
                   <div className="flex items-center gap-2">
                     <Money
                       withoutTrailingZeros
@@ -171,26 +268,53 @@ const ProductInformation = forwardRef<HTMLDivElement, ProductInformationProps>(
                 {showShortDescription && (
                   <p className="leading-relaxed">{summary}</p>
                 )}
-                <ProductVariants productOptions={productOptions} />
+                <ProductVariants
+                  productOptions={productOptions}
+                  sizeChart={sizeChart}
+                  sizeGuideOption={sizeGuideOption}
+                />
+                {selectedVariant && (
+                  <SellingPlanSelector
+                    product={product}
+                    price={selectedVariant.price}
+                    selectedPlan={sellingPlan}
+                    onChange={setSellingPlanId}
+                  />
+                )}
+                <PersonalizationFields
+                  fields={personalization.fields}
+                  values={personalization.values}
+                  errors={personalization.errors}
+                  onChange={personalization.onChange}
+                />
+                {selectedVariant && (
+                  <QuantityBreaks
+                    tiers={quantityBreaks}
+                    price={sellingPlanPrice || selectedVariant.price}
+                    quantity={quantity}
+                    onChange={setQuantity}
+                  />
+                )}
                 <Quantity value={quantity} onChange={setQuantity} />
-                <div className="space-y-2">
-                  <AddToCartButton
-                    disabled={!selectedVariant?.availableForSale}
-                    lines={[
-                      {
-                        merchandiseId: selectedVariant?.id,
-                        quantity,
-                        selectedVariant,
-                      },
-                    ]}
-                    data-test="add-to-cart"
-                    className="w-full uppercase"
-                  >
-                    {selectedVariant.availableForSale
-                      ? addToCartText
-                      : soldOutText}
-                  </AddToCartButton>
-                  {selectedVariant?.availableForSale && (
+                <div ref={buyBoxRef} className="space-y-2">
+                  {selectedVariant.availableForSale ? (
+                    <AddToCartButton
+                      lines={addToCartLines}
+                      validate={personalization.validate}
+                      discountCode={quantityBreak?.code}
+                      data-test="add-to-cart"
+                      className="w-full uppercase"
+                    >
+                      {addToCartText}
+                    </AddToCartButton>
+                  ) : (
+                    <BackInStockForm
+                      variantId={selectedVariant.id}
+                      soldOutText={soldOutText}
+                    />
+                  )}
+                  {/* Shop Pay doesn't support buying with a selling plan */}
+                  {selectedVariant?.availableForSale && !sellingPlan && (
                     <ShopPayButton
                       width="100%"
                       variantIdsAndQuantities={[
@@ -210,6 +334,41 @@ const ProductInformation = forwardRef<HTMLDivElement, ProductInformationProps>(
               </div>
             </div>
           </div>
+          {showStickyAddToCart && selectedVariant && (
+            <StickyAddToCart
+              show={Boolean(isBuyBoxScrolledPast)}
+              position={stickyAddToCartPosition}
+              title={title}
+              selectedVariant={selectedVariant}
+              productOptions={productOptions}
+              price={discountedPrice || selectedVariant.price}
+            >
+              {selectedVariant.availableForSale ? (
+                <AddToCartButton
+                  lines={addToCartLines}
+                  validate={() => {
+                    // The errors are displayed in the main buy box
+                    const isValid = personalization.validate();
+                    if (!isValid) {
+                      entry?.target.scrollIntoView({
+                        behavior: "smooth",
+                        block: "center",
+                      });
+                    }
+                    return isValid;
+                  }}
+                  discountCode={quantityBreak?.code}
+                  className="uppercase"
+                >
+                  {addToCartText}
+                </AddToCartButton>
+              ) : (
+                <Button disabled className="uppercase">
+                  {soldOutText}
+                </Button>
+              )}
+            </StickyAddToCart>
+          )}
         </Section>
       );
     }
@@ -297,6 +456,21 @@ export const schema = createSchema({
           type: "switch",
           defaultValue: true,
         },
+        {
+          type: "select",
+          name: "mediaFilter",
+          label: "Variant media",
+          defaultValue: "none",
+          configs: {
+            options: [
+              { label: "Show all media", value: "none" },
+              { label: "Group by alt text tags", value: "alt" },
+              { label: "Group by variant metafield", value: "metafield" },
+            ],
+          },
+          helpText:
+            "Only show the media of the selected variant. Tag the alt text of the media like <code>#color:red</code>, or list the media in the <code>custom.variant_media</code> metafield of the variants.",
+        },
       ],
     },
     {
@@ -346,6 +520,36 @@ export const schema = createSchema({
           name: "showRefundPolicy",
           defaultValue: true,
         },
+        {
+          type: "switch",
+          label: "Show sticky add to cart",
+          name: "showStickyAddToCart",
+          defaultValue: true,
+          helpText:
+            "Shown once the main add to cart button is scrolled out of view.",
+        },
+        {
+          type: "toggle-group",
+          label: "Sticky add to cart position",
+          name: "stickyAddToCartPosition",
+          configs: {
+            options: [
+              { label: "Top", value: "top" },
+              { label: "Bottom", value: "bottom" },
+            ],
+          },
+          defaultValue: "bottom",
+          condition: (data) => data.showStickyAddToCart,
+        },
+        {
+          type: "text",
+          label: "Size guide option",
+          name: "sizeGuideOption",
+          defaultValue: "Size",
+          placeholder: "Size",
+          helpText:
+            "Show a size guide link next to this option. The size chart comes from the <code>custom.size_chart</code> metafield of the product, or from the size chart metaobject named after the product type.",
+        },
       ],
     },
   ],
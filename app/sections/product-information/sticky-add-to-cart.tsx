@@ -0,0 +1,114 @@
+import { type MappedProductOptions, Money } from "@shopify/hydrogen";
+import type { MoneyV2 } from "@shopify/hydrogen/storefront-api-types";
+import clsx from "clsx";
+import { useNavigate } from "react-router";
+import type { ProductVariantFragment } from "storefront-api.generated";
+import { Image } from "~/components/image";
+
+/**
+ * Compact buy box pinned to the top or bottom of the page, shown while the
+ * main add to cart button is out of the viewport
+ */
+export function StickyAddToCart({
+  show,
+  position,
+  title,
+  selectedVariant,
+  productOptions,
+  price,
+  children,
+}: {
+  show: boolean;
+  position: "top" | "bottom";
+  title: string;
+  selectedVariant: ProductVariantFragment;
+  productOptions: MappedProductOptions[];
+  price: Pick<MoneyV2, "amount" | "currencyCode">;
+  children: React.ReactNode;
+}) {
+  const { image, title: variantTitle } = selectedVariant;
+  return (
+    <div
+      inert={!show}
+      data-test="sticky-add-to-cart"
+      className={clsx(
+        "fixed inset-x-0 z-10 bg-background transition-transform duration-300",
+        position === "top"
+          ? "top-(--height-nav) border-b border-line-subtle"
+          : "bottom-[var(--compare-tray-height,0px)] border-t border-line-subtle",
+        !show &&
+          (position === "top"
+            ? "-translate-y-[200%]"
+            : "translate-y-[calc(100%+var(--compare-tray-height,0px))]"),
+      )}
+    >
+      <div className="flex items-center gap-4 px-3 py-2 mx-auto md:px-4 lg:px-6 max-w-(--page-width)">
+        {image && (
+          <Image
+            data={image}
+            width={100}
+            aspectRatio="1/1"
+            className="hidden w-12 h-12 object-cover bg-gray-100 sm:block"
+            sizes="auto"
+          />
+        )}
+        <div className="min-w-0 grow">
+          <div className="font-bold truncate">{title}</div>
+          <div className="flex items-center gap-2 text-sm">
+            <Money withoutTrailingZeros data={price as MoneyV2} as="span" />
+            {variantTitle !== "Default Title" && (
+              <span className="truncate text-body-subtle">{variantTitle}</span>
+            )}
+          </div>
+        </div>
+        <CompactVariantPicker productOptions={productOptions} />
+        <div className="shrink-0">{children}</div>
+      </div>
+    </div>
+  );
+}
+
+function CompactVariantPicker({
+  productOptions,
+}: {
+  productOptions: MappedProductOptions[];
+}) {
+  const navigate = useNavigate();
+  const options = productOptions.filter(
+    ({ optionValues }) => optionValues.length > 1,
+  );
+  if (!options.length) return null;
+
+  return (
+    <div className="hidden items-center gap-2 lg:flex">
+      {options.map(({ name, optionValues }) => (
+        <select
+          key={name}
+          aria-label={name}
+          value={optionValues.find(({ selected }) => selected)?.name}
+          onChange={(e) => {
+            const found = optionValues.find(
+              ({ name: value }) => value === e.currentTarget.value,
+            );
+            if (!found) return;
+            if (found.isDifferentProduct) {
+              window.location.href = `/products/${found.handle}?${found.variantUriQuery}`;
+            } else {
+              navigate(`?${found.variantUriQuery}`, {
+                replace: true,
+                preventScrollReset: true,
+              });
+            }
+          }}
+          className="h-10 px-3 border border-line bg-background"
+        >
+          {optionValues.map(({ name: value, available }) => (
+            <option key={value} value={value}>
+              {available ? value : `${value} - Sold out`}
+            </option>
+          ))}
+        </select>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { createSchema } from "@weaverse/hydrogen";
+import { forwardRef, useEffect } from "react";
+import { useFetcher, useLoaderData } from "react-router";
+import type { ProductCardFragment } from "storefront-api.generated";
+import Heading, {
+  type HeadingProps,
+  headingInputs,
+} from "~/components/heading";
+import { ProductCard } from "~/components/product/product-card";
+import { layoutInputs, Section, type SectionProps } from "~/components/section";
+import { Swimlane } from "~/components/swimlane";
+import { usePrefixPathWithLocale } from "~/hooks/use-prefix-path-with-locale";
+import {
+  RECENTLY_VIEWED_LIMIT,
+  useRecentlyViewed,
+} from "~/hooks/use-recently-viewed";
+
+interface RecentlyViewedProps
+  extends Omit<SectionProps, "content">,
+    Omit<HeadingProps, "as"> {
+  headingTagName?: "h1" | "h2" | "h3" | "h4" | "h5" | "h6";
+  productsCount: number;
+}
+
+const RecentlyViewed = forwardRef<HTMLElement, RecentlyViewedProps>(
+  (props, ref) => {
+    const {
+      headingTagName,
+      content,
+      size,
+      mobileSize,
+      desktopSize,
+      color,
+      weight,
+      letterSpacing,
+      alignment,
+      minSize,
+      maxSize,
+      productsCount,
+      ...rest
+    } = props;
+    // The product being viewed, on product pages
+    const currentProductId = useLoaderData<{ product?: { id: string } }>()
+      ?.product?.id;
+    const ids = useRecentlyViewed()
+      .filter((id) => id !== currentProductId)
+      .slice(0, productsCount || RECENTLY_VIEWED_LIMIT)
+      .join(",");
+    const { load, data } = useFetcher<{ products: ProductCardFragment[] }>();
+    const apiPath = usePrefixPathWithLocale("/api/recently-viewed");
+
+    useEffect(() => {
+      if (ids) {
+        load(`${apiPath}?${new URLSearchParams({ ids })}`);
+      }
+    }, [load, apiPath, ids]);
+
+    const products = ids
+      ? data?.products.filter(({ id }) => id !== currentProductId)
+      : [];
+    if (!products?.length) {
+      return <section ref={ref} {...rest} />;
+    }
+
+    return (
+      <Section ref={ref} {...rest} overflow="unset">
+        {content && (
+          <Heading
+            content={content}
+            as={headingTagName}
+            color={color}
+            size={size}
+            mobileSize={mobileSize}
+            desktopSize={desktopSize}
+            minSize={minSize}
+            maxSize={maxSize}
+            weight={weight}
+            letterSpacing={letterSpacing}
+            alignment={alignment}
+          />
+        )}
+        <Swimlane>
+          {products.map((product) => (
+            <ProductCard
+              key={product.id}
+              product={product}
+              className="snap-start w-80"
+            />
+          ))}
+        </Swimlane>
+      </Section>
+    );
+  },
+);
+
+export default RecentlyViewed;
+
+export const schema = createSchema({
+  type: "recently-viewed",
+  title: "Recently viewed",
+  limit: 1,
+  settings: [
+    {
+      group: "Layout",
+      inputs: layoutInputs.filter((i) => i.name !== "borderRadius"),
+    },
+    {
+      group: "Products",
+      inputs: [
+        {
+          type: "range",
+          name: "productsCount",
+          label: "Number of products",
+          configs: { min: 2, max: RECENTLY_VIEWED_LIMIT, step: 1 },
+          defaultValue: 8,
+        },
+      ],
+    },
+    {
+      group: "Heading",
+      inputs: headingInputs.map((input) => {
+        if (input.name === "as") {
+          return {
+            ...input,
+            name: "headingTagName",
+          };
+        }
+        return input;
+      }),
+    },
+  ],
+  presets: {
+    gap: 32,
+    content: "Recently viewed",
+  },
+});
@@ -7,4 +7,9 @@ export type I18nLocale = I18nBase & {
   currency: CurrencyCode;
   label: string;
   pathPrefix?: string;
+  /**
+   * Cart subtotal (in the market currency) required for free shipping.
+   * Can be overridden per market from the `Free shipping` theme settings.
+   */
+  freeShippingThreshold?: number;
 };
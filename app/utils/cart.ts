@@ -0,0 +1,394 @@
+import type {
+  Attribute,
+  AttributeInput,
+  CartLineInput,
+  CountryCode,
+  CurrencyCode,
+  MoneyV2,
+} from "@shopify/hydrogen/storefront-api-types";
+import { COUNTRIES } from "~/utils/const";
+
+export const CART_CUSTOM_ACTIONS = {
+  GiftWrapUpdate: "CustomGiftWrapUpdate",
+  SaveForLater: "CustomSaveForLater",
+  MoveToCart: "CustomMoveToCart",
+} as const;
+
+export const GIFT_WRAP_ATTRIBUTE = "Gift wrap";
+export const GIFT_MESSAGE_ATTRIBUTE = "Gift message";
+
+/**
+ * Lines added together from a bundle builder share the same bundle id,
+ * they are displayed and removed as a unit in the cart.
+ */
+export const BUNDLE_ID_ATTRIBUTE = "_bundle_id";
+export const BUNDLE_NAME_ATTRIBUTE = "_bundle_name";
+
+/**
+ * Lines of backorderable variants, the value is the expected ship date
+ * (or `true` when unknown) so fulfillment can spot the pre-orders.
+ */
+export const PREORDER_ATTRIBUTE = "_preorder";
+
+/**
+ * Lines added with a discount code (quantity breaks, bundles) keep the code
+ * and the line quantity it requires, so the code can be removed from the
+ * cart once no line qualifies for it anymore.
+ */
+export const DISCOUNT_CODE_ATTRIBUTE = "_discount_code";
+export const DISCOUNT_MIN_QUANTITY_ATTRIBUTE = "_discount_min_quantity";
+
+export function getDiscountCodeAttributes(
+  code: string,
+  minQuantity = 1,
+): AttributeInput[] {
+  return [
+    { key: DISCOUNT_CODE_ATTRIBUTE, value: code },
+    { key: DISCOUNT_MIN_QUANTITY_ATTRIBUTE, value: String(minQuantity) },
+  ];
+}
+
+type DiscountCodeLine = {
+  id: string;
+  quantity: number;
+  attributes?: Pick<Attribute, "key" | "value">[] | null;
+};
+
+/**
+ * Get the discount codes added with the cart lines that no line qualifies
+ * for after the update, a quantity of `0` stands for a removed line.
+ */
+export function getStaleDiscountCodes(
+  lines: DiscountCodeLine[],
+  updates: { id: string; quantity?: number | null }[],
+) {
+  const codes = new Set<string>();
+  const qualified = new Set<string>();
+  for (const line of lines) {
+    const getAttribute = (key: string) =>
+      line.attributes?.find((attr) => attr.key === key)?.value;
+    const code = getAttribute(DISCOUNT_CODE_ATTRIBUTE)?.toLowerCase();
+    if (!code) continue;
+    codes.add(code);
+    const update = updates.find(({ id }) => id === line.id);
+    const quantity = update?.quantity ?? line.quantity;
+    const minQuantity = Number(getAttribute(DISCOUNT_MIN_QUANTITY_ATTRIBUTE));
+    if (quantity > 0 && quantity >= (minQuantity || 1)) {
+      qualified.add(code);
+    }
+  }
+  return [...codes].filter((code) => !qualified.has(code));
+}
+
+/**
+ * Parse the free shipping thresholds entered in the theme settings.
+ * Each line is a `COUNTRY_CODE: amount` pair, e.g. `US: 100`.
+ * Invalid lines are ignored.
+ */
+export function parseFreeShippingThresholds(value = "") {
+  const thresholds: Partial<Record<CountryCode, number>> = {};
+  for (const line of value.split(/[\n,]/)) {
+    const [country, amount] = line.split(":").map((part) => part.trim());
+    const threshold = Number(amount);
+    if (/^[a-z]{2}$/i.test(country) && amount && threshold >= 0) {
+      thresholds[country.toUpperCase() as CountryCode] = threshold;
+    }
+  }
+  return thresholds;
+}
+
+/**
+ * Find the free shipping threshold for a cart.
+ * The threshold must be expressed in the cart currency, so a market is only
+ * used when its currency matches. The market of the cart's buyer identity is
+ * preferred, then any other market selling in the same currency.
+ * @returns the threshold amount or `null` if no market applies
+ */
+export function getFreeShippingThreshold({
+  countryCode,
+  currencyCode,
+  overrides = {},
+}: {
+  countryCode?: CountryCode | null;
+  currencyCode: CurrencyCode;
+  overrides?: Partial<Record<CountryCode, number>>;
+}) {
+  const markets = Object.values(COUNTRIES).filter(
+    (locale) => locale.currency === currencyCode,
+  );
+  const market =
+    markets.find((locale) => locale.country === countryCode) || markets[0];
+  if (!market) {
+    return null;
+  }
+  const threshold = overrides[market.country] ?? market.freeShippingThreshold;
+  return typeof threshold === "number" && threshold > 0 ? threshold : null;
+}
+
+export function getFreeShippingProgress(subtotal: MoneyV2, threshold: number) {
+  const amount = Number(subtotal?.amount) || 0;
+  const remaining = Math.max(0, threshold - amount);
+  return {
+    remaining: remaining.toFixed(2),
+    percentage: Math.min(100, Math.round((amount / threshold) * 100)),
+    qualified: remaining === 0,
+  };
+}
+
+/**
+ * Attributes whose key starts with an underscore are hidden from the buyer
+ * in checkout and are reserved for the storefront's own bookkeeping.
+ */
+export function isPrivateAttribute({ key }: Pick<Attribute, "key">) {
+  return key.startsWith("_");
+}
+
+/**
+ * Merge attribute updates into the current attributes.
+ * The Storefront API replaces the whole attributes list on update, so keys
+ * that are not part of the update are kept. An empty value removes the key.
+ */
+export function mergeAttributes(
+  current: Pick<Attribute, "key" | "value">[] = [],
+  updates: AttributeInput[] = [],
+): AttributeInput[] {
+  const merged = new Map<string, string | null | undefined>();
+  for (const { key, value } of [...current, ...updates]) {
+    merged.set(key, value);
+  }
+  return Array.from(merged, ([key, value]) => ({ key, value })).filter(
+    ({ key, value }) => key?.trim() && value?.trim(),
+  );
+}
+
+export function createBundleId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Group the cart lines of the same bundle, keeping the order of the cart.
+ * Lines that are not part of a bundle are returned in their own group.
+ */
+export function groupLinesByBundle<
+  T extends { attributes?: Pick<Attribute, "key" | "value">[] | null },
+>(lines: T[]) {
+  const groups: { bundleId?: string; bundleName?: string; lines: T[] }[] = [];
+  for (const line of lines) {
+    const getAttribute = (key: string) =>
+      line.attributes?.find((attr) => attr.key === key)?.value || undefined;
+    const bundleId = getAttribute(BUNDLE_ID_ATTRIBUTE);
+    const group = bundleId && groups.find((g) => g.bundleId === bundleId);
+    if (group) {
+      group.lines.push(line);
+    } else {
+      groups.push({
+        bundleId,
+        bundleName: getAttribute(BUNDLE_NAME_ATTRIBUTE),
+        lines: [line],
+      });
+    }
+  }
+  return groups;
+}
+
+export const DISCOUNT_CODES_FETCHER_KEY = "cart-discount-codes";
+
+/**
+ * Each discount code form has its own fetcher so applying a code and removing
+ * another one don't cancel each other, the key of the apply form has no code.
+ */
+export function getDiscountCodesFetcherKey(code?: string) {
+  return code
+    ? `${DISCOUNT_CODES_FETCHER_KEY}-${code.toLowerCase()}`
+    : DISCOUNT_CODES_FETCHER_KEY;
+}
+
+export const DISCOUNT_CODE_NOT_APPLICABLE =
+  "This code is not valid or doesn't apply to the items in your cart.";
+
+export type DiscountCodeResult = {
+  code: string;
+  applicable: boolean;
+  reason?: string;
+};
+
+/**
+ * Trim, drop empty entries and de-duplicate discount codes.
+ * Codes are case insensitive, the first spelling is kept.
+ */
+export function normalizeDiscountCodes(codes: unknown[] = []) {
+  const seen = new Set<string>();
+  const normalized: string[] = [];
+  for (const code of codes) {
+    const value = typeof code === "string" ? code.trim() : "";
+    if (value && !seen.has(value.toLowerCase())) {
+      seen.add(value.toLowerCase());
+      normalized.push(value);
+    }
+  }
+  return normalized;
+}
+
+/**
+ * Build the status of every discount code requested on the cart.
+ * A code is only applicable if the cart reports it as such. The reason of an
+ * inapplicable code is taken from the user error pointing at it (by index in
+ * the `discountCodes` field, or mentioning the code), or a generic message.
+ */
+export function getDiscountCodeResults(
+  requestedCodes: string[],
+  {
+    discountCodes = [],
+    userErrors = [],
+  }: {
+    discountCodes?: { code: string; applicable: boolean }[];
+    userErrors?: { field?: string[] | null; message: string }[];
+  },
+): DiscountCodeResult[] {
+  return requestedCodes.map((code, index) => {
+    const status = discountCodes.find(
+      (discount) => discount.code.toLowerCase() === code.toLowerCase(),
+    );
+    if (status?.applicable) {
+      return { code: status.code, applicable: true };
+    }
+    const error = userErrors.find(
+      ({ field, message }) =>
+        (field?.[0] === "discountCodes" && field?.[1] === String(index)) ||
+        message.toLowerCase().includes(code.toLowerCase()),
+    );
+    return {
+      code: status?.code || code,
+      applicable: false,
+      reason: error?.message || DISCOUNT_CODE_NOT_APPLICABLE,
+    };
+  });
+}
+
+/**
+ * Show the "Only N left" message when the stock of a cart line is at or
+ * below this level
+ */
+export const LOW_STOCK_THRESHOLD = 5;
+
+/**
+ * Get the maximum quantity a cart line can be increased to.
+ * `quantityAvailable` is `null` when the storefront can't read the inventory,
+ * and zero or negative when the variant is sold while out of stock.
+ * Variants that keep selling while out of stock (pre-orders) can be oversold,
+ * in all these cases the quantity isn't capped.
+ */
+export function getMaxLineQuantity({
+  quantityAvailable,
+  currentlyNotInStock,
+}: {
+  quantityAvailable?: number | null;
+  currentlyNotInStock?: boolean | null;
+}) {
+  if (
+    currentlyNotInStock ||
+    typeof quantityAvailable !== "number" ||
+    quantityAvailable <= 0
+  ) {
+    return Number.POSITIVE_INFINITY;
+  }
+  return quantityAvailable;
+}
+
+export const CART_PERMALINK_RESTORE_PARAM = "restore";
+
+type PermalinkLine = {
+  merchandiseId: string;
+  quantity: number;
+  attributes?: Pick<Attribute, "key" | "value">[];
+};
+
+/**
+ * Build a cart permalink (`/cart/<variant_id>:<quantity>,...`) that recreates
+ * the given lines, with their attributes, and discount codes.
+ * Line attributes are sent as `attributes[<line index>][<key>]=<value>` params.
+ * @param restore land on the cart page instead of the checkout
+ */
+export function getCartPermalink({
+  lines,
+  discountCodes = [],
+  restore = true,
+  pathPrefix = "",
+}: {
+  lines: PermalinkLine[];
+  discountCodes?: string[];
+  restore?: boolean;
+  pathPrefix?: string;
+}) {
+  const path = lines
+    .map(({ merchandiseId, quantity }) => {
+      const variantId = merchandiseId.split("/").pop();
+      return `${variantId}:${quantity}`;
+    })
+    .join(",");
+  const params = new URLSearchParams();
+  lines.forEach(({ attributes }, index) => {
+    for (const { key, value } of mergeAttributes(attributes)) {
+      params.append(`attributes[${index}][${key}]`, value);
+    }
+  });
+  if (discountCodes.length) {
+    params.set("discount", discountCodes.join(","));
+  }
+  if (restore) {
+    params.set(CART_PERMALINK_RESTORE_PARAM, "true");
+  }
+  const search = params.toString();
+  return `${pathPrefix}/cart/${path}${search ? `?${search}` : ""}`;
+}
+
+/**
+ * Parse the lines, line attributes and discount codes of a cart permalink.
+ * Invalid variant ids or quantities are reported in `errors` with the
+ * offending `<variant_id>:<quantity>` pair.
+ */
+export function parseCartPermalink(
+  lines: string | undefined,
+  searchParams: URLSearchParams,
+) {
+  const errors: string[] = [];
+  const cartLines: CartLineInput[] = [];
+
+  for (const [index, line] of (lines || "").split(",").entries()) {
+    const [variantId = "", rawQuantity = ""] = line.split(":");
+    if (!/^\d+$/.test(variantId)) {
+      errors.push(`"${line}": the variant id must be a number.`);
+      continue;
+    }
+    const quantity = Number(rawQuantity);
+    if (!/^\d+$/.test(rawQuantity) || !Number.isSafeInteger(quantity)) {
+      errors.push(`"${line}": the quantity must be a whole number.`);
+      continue;
+    }
+    if (quantity === 0) {
+      errors.push(`"${line}": the quantity must be greater than zero.`);
+      continue;
+    }
+    const attributes: AttributeInput[] = [];
+    const prefix = `attributes[${index}][`;
+    for (const [param, value] of searchParams) {
+      if (param.startsWith(prefix) && param.endsWith("]")) {
+        attributes.push({ key: param.slice(prefix.length, -1), value });
+      }
+    }
+    cartLines.push({
+      merchandiseId: `gid://shopify/ProductVariant/${variantId}`,
+      quantity,
+      ...(attributes.length && { attributes: mergeAttributes([], attributes) }),
+    });
+  }
+
+  return {
+    lines: cartLines,
+    discountCodes: normalizeDiscountCodes(
+      searchParams.get("discount")?.split(",") ?? [],
+    ),
+    restore: searchParams.get(CART_PERMALINK_RESTORE_PARAM) === "true",
+    errors,
+  };
+}
@@ -6,60 +6,70 @@ export const COUNTRIES: Localizations = {
     language: "EN",
     country: "US",
     currency: "USD",
+    freeShippingThreshold: 100,
   },
   "/en-au": {
     label: "Australia (AUD $)",
     language: "EN",
     country: "AU",
     currency: "AUD",
+    freeShippingThreshold: 150,
   },
   "/en-ca": {
     label: "Canada (CAD $)",
     language: "EN",
     country: "CA",
     currency: "CAD",
+    freeShippingThreshold: 130,
   },
   "/en-cn": {
     label: "China (CNY ¥)",
     language: "EN",
     country: "CN",
     currency: "CNY",
+    freeShippingThreshold: 700,
   },
   "/en-de": {
     label: "Germany (EUR €)",
     language: "EN",
     country: "DE",
     currency: "EUR",
+    freeShippingThreshold: 90,
   },
   "/en-es": {
     label: "Spain (EUR €)",
     language: "EN",
     country: "ES",
     currency: "EUR",
+    freeShippingThreshold: 90,
   },
   "/en-fr": {
     label: "France (EUR €)",
     language: "EN",
     country: "FR",
     currency: "EUR",
+    freeShippingThreshold: 90,
   },
   "/en-gb": {
     label: "United Kingdom (GBP £)",
     language: "EN",
     country: "GB",
     currency: "GBP",
+    freeShippingThreshold: 80,
   },
   "/en-it": {
     label: "Italy (EUR €)",
     language: "EN",
     country: "IT",
     currency: "EUR",
+    freeShippingThreshold: 90,
   },
   "/en-jp": {
     label: "Japan (JPY ¥)",
     language: "EN",
     country: "JP",
     currency: "JPY",
+    freeShippingThreshold: 15000,
   },
 
   "/en-nl": {
@@ -67,12 +77,14 @@ export const COUNTRIES: Localizations = {
     language: "EN",
     country: "NL",
     currency: "EUR",
+    freeShippingThreshold: 90,
   },
   "/en-vn": {
     label: "Vietnam (VND ₫)",
     language: "EN",
     country: "VN",
     currency: "VND",
+    freeShippingThreshold: 2500000,
   },
 };
 
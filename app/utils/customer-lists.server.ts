@@ -0,0 +1,156 @@
+import type { AttributeInput } from "@shopify/hydrogen/storefront-api-types";
+import type {
+  CustomerMetafieldQuery,
+  CustomerMetafieldsSetMutation,
+} from "customer-account-api.generated";
+import type { AppLoadContext } from "react-router";
+import invariant from "tiny-invariant";
+import {
+  CUSTOMER_METAFIELD_QUERY,
+  CUSTOMER_METAFIELDS_SET_MUTATION,
+} from "~/graphql/customer-account";
+
+export type SavedItem = {
+  merchandiseId: string;
+  quantity: number;
+  attributes?: AttributeInput[];
+};
+
+/**
+ * Persistent lists of items kept for a shopper.
+ * Guests keep them in the session cookie, signed-in customers in a customer
+ * metafield (JSON type, with read & write access from the Customer Account API).
+ * Lists are capped to keep the session cookie small.
+ */
+export const CUSTOMER_LISTS = {
+  savedForLater: {
+    sessionKey: "savedForLater",
+    namespace: "custom",
+    key: "saved_for_later",
+    itemKey: "merchandiseId",
+    limit: 20,
+  },
+  wishlist: {
+    sessionKey: "wishlist",
+    namespace: "custom",
+    key: "wishlist",
+    itemKey: "productId",
+    limit: 50,
+  },
+} as const;
+
+export type CustomerListName = keyof typeof CUSTOMER_LISTS;
+
+export async function getCustomerList<T>(
+  context: AppLoadContext,
+  name: CustomerListName,
+): Promise<T[]> {
+  const { sessionKey, namespace, key } = CUSTOMER_LISTS[name];
+  if (await context.customerAccount.isLoggedIn()) {
+    const { data, errors } =
+      await context.customerAccount.query<CustomerMetafieldQuery>(
+        CUSTOMER_METAFIELD_QUERY,
+        { variables: { namespace, key } },
+      );
+    invariant(!errors?.length, errors?.[0]?.message);
+    return parseList<T>(data?.customer?.metafield?.value);
+  }
+  return parseList<T>(context.session.get(sessionKey));
+}
+
+export async function setCustomerList<T>(
+  context: AppLoadContext,
+  name: CustomerListName,
+  items: T[],
+) {
+  const { sessionKey, namespace, key, limit } = CUSTOMER_LISTS[name];
+  const list = items.slice(0, limit);
+  if (await context.customerAccount.isLoggedIn()) {
+    const { data: customerData } =
+      await context.customerAccount.query<CustomerMetafieldQuery>(
+        CUSTOMER_METAFIELD_QUERY,
+        { variables: { namespace, key } },
+      );
+    const ownerId = customerData?.customer?.id;
+    invariant(ownerId, "Customer not found");
+
+    const { data, errors } =
+      await context.customerAccount.mutate<CustomerMetafieldsSetMutation>(
+        CUSTOMER_METAFIELDS_SET_MUTATION,
+        {
+          variables: {
+            metafields: [
+              {
+                ownerId,
+                namespace,
+                key,
+                type: "json",
+                value: JSON.stringify(list),
+              },
+            ],
+          },
+        },
+      );
+    invariant(!errors?.length, errors?.[0]?.message);
+    invariant(
+      !data?.metafieldsSet?.userErrors?.length,
+      data?.metafieldsSet?.userErrors?.[0]?.message,
+    );
+  } else {
+    context.session.set(sessionKey, list);
+  }
+  return list;
+}
+
+export async function updateCustomerList<T>(
+  context: AppLoadContext,
+  name: CustomerListName,
+  update: (items: T[]) => T[],
+) {
+  const items = await getCustomerList<T>(context, name);
+  return setCustomerList(context, name, update(items));
+}
+
+/**
+ * Merge the lists kept in the session while browsing as a guest into the
+ * customer metafields, then clear them from the session.
+ * Must be called once the customer is logged in.
+ */
+export async function mergeGuestLists(context: AppLoadContext) {
+  for (const name of Object.keys(CUSTOMER_LISTS) as CustomerListName[]) {
+    const { sessionKey, itemKey } = CUSTOMER_LISTS[name];
+    const guestItems = parseList<Record<string, unknown>>(
+      context.session.get(sessionKey),
+    );
+    if (!guestItems.length) {
+      continue;
+    }
+    await updateCustomerList<Record<string, unknown>>(
+      context,
+      name,
+      (items) => {
+        const keys = new Set(items.map((item) => item[itemKey]));
+        return [
+          ...guestItems.filter((item) => !keys.has(item[itemKey])),
+          ...items,
+        ];
+      },
+    );
+    context.session.unset(sessionKey);
+  }
+}
+
+function parseList<T>(value: unknown): T[] {
+  if (Array.isArray(value)) {
+    return value as T[];
+  }
+  if (typeof value === "string") {
+    try {
+      const parsed = JSON.parse(value);
+      return Array.isArray(parsed) ? (parsed as T[]) : [];
+    } catch {
+      // Invalid metafield value, start over with an empty list
+    }
+  }
+  return [];
+}
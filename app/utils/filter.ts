@@ -1,5 +1,9 @@
-import type { ProductFilter } from "@shopify/hydrogen/storefront-api-types";
+import type {
+  Filter,
+  ProductFilter,
+} from "@shopify/hydrogen/storefront-api-types";
 import type { Location, useLocation } from "react-router";
+import type { I18nLocale } from "~/types/locale";
 
 export const FILTER_URL_PREFIX = "filter.";
 
@@ -28,6 +32,24 @@ export function getAppliedFilterLink(
   return `${location.pathname}?${paramsClone.toString()}`;
 }
 
+/**
+ * Remove all the applied filters, other params (e.g. the search term and
+ * the sort) are kept
+ */
+export function getClearFiltersLink(
+  params: URLSearchParams,
+  location: Location,
+) {
+  const paramsClone = new URLSearchParams(params);
+  for (const key of params.keys()) {
+    if (key.startsWith(FILTER_URL_PREFIX)) {
+      paramsClone.delete(key);
+    }
+  }
+  const search = paramsClone.toString();
+  return search ? `${location.pathname}?${search}` : location.pathname;
+}
+
 export function getFilterLink(
   input: string | ProductFilter,
   params: URLSearchParams,
@@ -61,3 +83,79 @@ export function filterInputToParams(
 
   return params;
 }
+
+/**
+ * Parse the `filter.*` search params into the Storefront API product filters
+ */
+export function getFiltersFromParams(searchParams: URLSearchParams) {
+  return [...searchParams.entries()].reduce((filters, [key, value]) => {
+    if (key.startsWith(FILTER_URL_PREFIX)) {
+      const filterKey = key.substring(FILTER_URL_PREFIX.length);
+      filters.push({
+        [filterKey]: JSON.parse(value),
+      });
+    }
+    return filters;
+  }, [] as ProductFilter[]);
+}
+
+/**
+ * Match the filters from the URL with the available filters to get their labels
+ */
+export function getAppliedFilters(
+  filters: ProductFilter[],
+  availableFilters: Pick<Filter, "values">[],
+  locale: I18nLocale,
+): AppliedFilter[] {
+  const allFilterValues = availableFilters.flatMap((filter) => filter.values);
+
+  return filters
+    .map((filter) => {
+      const foundValue = allFilterValues.find((value) => {
+        const valueInput = JSON.parse(value.input as string) as ProductFilter;
+        // special case for price, the user can enter something freeform (still a number, though)
+        // that may not make sense for the locale/currency.
+        // Basically just check if the price filter is applied at all.
+        if (valueInput.price && filter.price) {
+          return true;
+        }
+        return (
+          // This comparison should be okay as long as we're not manipulating the input we
+          // get from the API before using it as a URL param.
+          JSON.stringify(valueInput) === JSON.stringify(filter)
+        );
+      });
+      if (!foundValue) {
+        // eslint-disable-next-line no-console
+        console.error("Could not find filter value for filter", filter);
+        return null;
+      }
+
+      if (foundValue.id === "filter.v.price") {
+        // Special case for price, we want to show the min and max values as the label.
+        const input = JSON.parse(foundValue.input as string) as ProductFilter;
+        const min = parseAsCurrency(input.price?.min ?? 0, locale);
+        const max = input.price?.max
+          ? parseAsCurrency(input.price.max, locale)
+          : "";
+        const label = min && max ? `${min} - ${max}` : "Price";
+
+        return {
+          filter,
+          label,
+        };
+      }
+      return {
+        filter,
+        label: foundValue.label,
+      };
+    })
+    .filter((filter): filter is NonNullable<typeof filter> => filter !== null);
+}
+
+function parseAsCurrency(value: number, locale: I18nLocale) {
+  return new Intl.NumberFormat(`${locale.language}-${locale.country}`, {
+    style: "currency",
+    currency: locale.currency,
+  }).format(value);
+}
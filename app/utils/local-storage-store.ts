@@ -0,0 +1,62 @@
+/**
+ * A list kept in `localStorage`, to be read with `useSyncExternalStore`.
+ * Subscribers are notified of the changes made in this tab and in the others.
+ * @param key the storage key
+ * @param sanitize drop the invalid items of the stored value
+ */
+export function createLocalStorageStore<T>(
+  key: string,
+  sanitize: (items: unknown[]) => T[],
+) {
+  const empty: T[] = [];
+  const listeners = new Set<() => void>();
+  let cache: { raw: string | null; items: T[] } = { raw: null, items: empty };
+
+  function get() {
+    let raw: string | null = null;
+    try {
+      raw = localStorage.getItem(key);
+    } catch {
+      // storage can be unavailable (e.g. privacy mode)
+    }
+    // Keep the same reference while the stored value doesn't change
+    if (raw !== cache.raw) {
+      let items = empty;
+      try {
+        const parsed = raw ? JSON.parse(raw) : [];
+        if (Array.isArray(parsed)) {
+          items = sanitize(parsed);
+        }
+      } catch {
+        // ignore malformed values
+      }
+      cache = { raw, items };
+    }
+    return cache.items;
+  }
+
+  function set(items: T[]) {
+    try {
+      localStorage.setItem(key, JSON.stringify(items));
+    } catch {
+      // storage can be unavailable (e.g. privacy mode)
+    }
+    for (const listener of listeners) {
+      listener();
+    }
+  }
+
+  function subscribe(listener: () => void) {
+    listeners.add(listener);
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === key) listener();
+    };
+    window.addEventListener("storage", onStorage);
+    return () => {
+      listeners.delete(listener);
+      window.removeEventListener("storage", onStorage);
+    };
+  }
+
+  return { get, set, subscribe, getServerSnapshot: () => empty };
+}
@@ -0,0 +1,80 @@
+import type { SelectedOption } from "@shopify/hydrogen/storefront-api-types";
+
+/**
+ * How the product media are grouped by variant:
+ * - `alt`: by the option tags in the alt text of the media, e.g. `#color:red`
+ * - `metafield`: by the media listed in the `custom.variant_media` metafield
+ *   of the variants
+ */
+export type MediaFilter = "none" | "alt" | "metafield";
+
+const OPTION_TAG_REGEX = /#([^\s#:]+):([^\s#]+)/g;
+
+function normalizeOptionTag(value: string) {
+  return value.trim().toLowerCase().replace(/\s+/g, "-");
+}
+
+/**
+ * Get the option tags of an alt text, `#color:navy-blue` => `{ color: "navy-blue" }`
+ */
+export function getMediaOptionTags(alt?: string | null) {
+  const tags: Record<string, string> = {};
+  for (const [, name, value] of (alt || "").matchAll(OPTION_TAG_REGEX)) {
+    tags[normalizeOptionTag(name)] = normalizeOptionTag(value);
+  }
+  return tags;
+}
+
+export function stripMediaOptionTags(alt?: string | null) {
+  return (alt || "").replace(OPTION_TAG_REGEX, "").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Only keep the media of the selected variant. Media without any option tag
+ * are shared by all variants. When nothing is specific to the selection,
+ * all media are returned.
+ */
+export function filterMediaByVariant<
+  T extends { id?: string | null; alt?: string | null },
+>(
+  media: T[],
+  filter: MediaFilter | undefined,
+  variant?: {
+    selectedOptions?: Pick<SelectedOption, "name" | "value">[];
+    variantMedia?: { value: string } | null;
+  } | null,
+): T[] {
+  if (!variant || !filter || filter === "none") {
+    return media;
+  }
+
+  if (filter === "metafield") {
+    let ids: unknown;
+    try {
+      ids = JSON.parse(variant.variantMedia?.value || "[]");
+    } catch {
+      return media;
+    }
+    if (!Array.isArray(ids) || !ids.length) return media;
+    const filtered = media.filter((med) => med.id && ids.includes(med.id));
+    return filtered.length ? filtered : media;
+  }
+
+  const selected = Object.fromEntries(
+    (variant.selectedOptions || []).map(({ name, value }) => [
+      normalizeOptionTag(name),
+      normalizeOptionTag(value),
+    ]),
+  );
+  let hasMatch = false;
+  const filtered = media.filter((med) => {
+    const tags = Object.entries(getMediaOptionTags(med.alt)).filter(
+      ([name]) => name in selected,
+    );
+    if (!tags.length) return true;
+    const isMatch = tags.every(([name, value]) => selected[name] === value);
+    hasMatch ||= isMatch;
+    return isMatch;
+  });
+  return hasMatch ? filtered : media;
+}
@@ -1,9 +1,18 @@
 import type { Storefront } from "@shopify/hydrogen";
-import type { MoneyV2 } from "@shopify/hydrogen/storefront-api-types";
-import type { ProductRecommendationsQuery } from "storefront-api.generated";
+import type {
+  AttributeInput,
+  MoneyV2,
+  ProductRecommendationIntent,
+} from "@shopify/hydrogen/storefront-api-types";
+import type {
+  ProductRecommendationsQuery,
+  ProductVariantFragment,
+  SellingPlanGroupFragment,
+} from "storefront-api.generated";
 import invariant from "tiny-invariant";
 import { PRODUCT_CARD_FRAGMENT } from "~/graphql/fragments";
 import type { I18nLocale } from "~/types/locale";
+import { PREORDER_ATTRIBUTE } from "~/utils/cart";
 
 export function isNewArrival(date: string, daysOld = 30) {
   return (
@@ -19,31 +28,276 @@ export function isDiscounted(price: MoneyV2, compareAtPrice: MoneyV2) {
   return false;
 }
 
+export type SellingPlan = SellingPlanGroupFragment["sellingPlans"]["nodes"][0];
+
+/**
+ * Get the price of a variant when bought with a selling plan.
+ * Only the first price adjustment is applied, it's the one of the first order
+ * (and of every order when there's a single adjustment).
+ */
+export function getSellingPlanPrice(
+  price: Pick<MoneyV2, "amount" | "currencyCode">,
+  sellingPlan?: Pick<SellingPlan, "priceAdjustments"> | null,
+): Pick<MoneyV2, "amount" | "currencyCode"> {
+  const adjustment = sellingPlan?.priceAdjustments[0]?.adjustmentValue;
+  const amount = Number(price.amount);
+  let adjustedAmount = amount;
+  switch (adjustment?.__typename) {
+    case "SellingPlanPercentagePriceAdjustment":
+      adjustedAmount = amount * (1 - adjustment.adjustmentPercentage / 100);
+      break;
+    case "SellingPlanFixedAmountPriceAdjustment":
+      adjustedAmount = amount - Number(adjustment.adjustmentAmount.amount);
+      break;
+    case "SellingPlanFixedPriceAdjustment":
+      adjustedAmount = Number(adjustment.price.amount);
+      break;
+  }
+  return {
+    amount: Math.max(0, adjustedAmount).toFixed(2),
+    currencyCode: price.currencyCode,
+  };
+}
+
+export type QuantityBreak = {
+  /** Minimum quantity of the tier */
+  quantity: number;
+  /** Percentage off the unit price */
+  percentage: number;
+  /** Discount code applied to the cart when adding the tier quantity */
+  code: string;
+};
+
+/**
+ * Parse the quantity breaks of a variant or product from its JSON metafield,
+ * e.g. `[{ "quantity": 2, "percentage": 10, "code": "BUY2" }]`.
+ * Tiers without a discount code are ignored, nothing would discount the cart.
+ * @returns the valid tiers sorted by quantity
+ */
+export function parseQuantityBreaks(value?: string | null): QuantityBreak[] {
+  if (!value) return [];
+  let tiers: unknown;
+  try {
+    tiers = JSON.parse(value);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(tiers)) return [];
+  return (tiers as Partial<QuantityBreak>[])
+    .filter(
+      (tier): tier is QuantityBreak =>
+        Number.isInteger(tier?.quantity) &&
+        Number(tier.quantity) > 1 &&
+        typeof tier.percentage === "number" &&
+        tier.percentage > 0 &&
+        tier.percentage < 100 &&
+        typeof tier.code === "string" &&
+        !!tier.code.trim(),
+    )
+    .map((tier) => ({ ...tier, code: tier.code.trim() }))
+    .filter(
+      (tier, idx, arr) =>
+        arr.findIndex(({ quantity }) => quantity === tier.quantity) === idx,
+    )
+    .sort((a, b) => a.quantity - b.quantity);
+}
+
+/**
+ * Get the highest tier reached by the quantity, `null` if none is reached
+ */
+export function getQuantityBreak(tiers: QuantityBreak[], quantity: number) {
+  return tiers.filter((tier) => quantity >= tier.quantity).at(-1) ?? null;
+}
+
+export function getQuantityBreakPrice(
+  price: Pick<MoneyV2, "amount" | "currencyCode">,
+  tier?: Pick<QuantityBreak, "percentage"> | null,
+): Pick<MoneyV2, "amount" | "currencyCode"> {
+  if (!tier) return price;
+  return {
+    amount: (Number(price.amount) * (1 - tier.percentage / 100)).toFixed(2),
+    currencyCode: price.currencyCode,
+  };
+}
+
+/**
+ * File uploads aren't supported: the Storefront API has no upload target,
+ * the file would need to be hosted first and its URL used as the value.
+ */
+export type PersonalizationFieldType = "text" | "select" | "checkbox" | "date";
+
+export type PersonalizationField = {
+  /** Shown to the shopper and used as the cart line attribute key */
+  label: string;
+  type: PersonalizationFieldType;
+  required?: boolean;
+  placeholder?: string;
+  /** Text fields only */
+  maxLength?: number;
+  /** Select fields only */
+  options?: string[];
+  /** Date fields only, as `YYYY-MM-DD` */
+  min?: string;
+  max?: string;
+};
+
+const PERSONALIZATION_FIELD_TYPES: PersonalizationFieldType[] = [
+  "text",
+  "select",
+  "checkbox",
+  "date",
+];
+
+/**
+ * Parse the personalization fields of a product from its JSON metafield, e.g.
+ * `[{ "label": "Engraving", "type": "text", "required": true, "maxLength": 20 }]`.
+ * Invalid fields are dropped.
+ */
+export function parsePersonalizationFields(
+  value?: string | null,
+): PersonalizationField[] {
+  if (!value) return [];
+  let fields: unknown;
+  try {
+    fields = JSON.parse(value);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(fields)) return [];
+  return (fields as Partial<PersonalizationField>[]).filter(
+    (field): field is PersonalizationField =>
+      typeof field?.label === "string" &&
+      field.label.trim() !== "" &&
+      !field.label.startsWith("_") &&
+      PERSONALIZATION_FIELD_TYPES.some((type) => type === field.type) &&
+      (field.type !== "select" ||
+        (Array.isArray(field.options) && field.options.length > 0)),
+  );
+}
+
+/**
+ * Validate the values of the personalization fields
+ * @returns the error message by field label, empty if all values are valid
+ */
+export function validatePersonalization(
+  fields: PersonalizationField[],
+  values: Record<string, string>,
+) {
+  const errors: Record<string, string> = {};
+  for (const field of fields) {
+    const { label, type, required, maxLength, options, min, max } = field;
+    const value = values[label]?.trim() || "";
+    if (!value) {
+      if (required) {
+        errors[label] =
+          type === "checkbox" ? "This box must be checked" : "Required";
+      }
+      continue;
+    }
+    if (type === "text" && maxLength && value.length > maxLength) {
+      errors[label] = `Must be ${maxLength} characters or fewer`;
+    } else if (type === "select" && !options?.includes(value)) {
+      errors[label] = "Select one of the options";
+    } else if (type === "date") {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        errors[label] = "Enter a valid date";
+      } else if ((min && value < min) || (max && value > max)) {
+        errors[label] = "This date is not available";
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * Get the cart line attributes of the filled in personalization fields
+ */
+export function getPersonalizationAttributes(
+  fields: PersonalizationField[],
+  values: Record<string, string>,
+): AttributeInput[] {
+  return fields.flatMap(({ label, type }) => {
+    const value = values[label]?.trim();
+    if (!value) return [];
+    return [{ key: label, value: type === "checkbox" ? "Yes" : value }];
+  });
+}
+
+export type PreorderVariant = Partial<
+  Pick<ProductVariantFragment, "availableForSale" | "currentlyNotInStock">
+> & { preorderDate?: { value: string } | null };
+
+/**
+ * A variant is on pre-order when it's still sold while out of stock,
+ * i.e. its inventory policy is "Continue selling when out of stock"
+ */
+export function isPreorder(variant?: PreorderVariant | null) {
+  return Boolean(variant?.availableForSale && variant.currentlyNotInStock);
+}
+
+/**
+ * "Pre-order – ships ~Mar 3, 2026", the ship date is optional
+ */
+export function getPreorderText(shipDate?: string | null) {
+  const date = shipDate ? new Date(shipDate) : null;
+  if (!date || Number.isNaN(date.valueOf())) {
+    return "Pre-order";
+  }
+  const formatted = date.toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+  return `Pre-order – ships ~${formatted}`;
+}
+
+/**
+ * Get the `_preorder` cart line attribute of a variant, if it's on pre-order
+ */
+export function getPreorderAttributes(
+  variant?: PreorderVariant | null,
+): AttributeInput[] {
+  if (!isPreorder(variant)) return [];
+  return [
+    {
+      key: PREORDER_ATTRIBUTE,
+      value: variant.preorderDate?.value || "true",
+    },
+  ];
+}
+
+/**
+ * Get the recommendations of a product, excluding the product itself
+ * @param intent the recommendation intent, `RELATED` by default
+ * @param withBestSellers pad the recommendations with the best selling products
+ */
 export async function getRecommendedProducts(
   storefront: Storefront<I18nLocale>,
   productId: string,
+  {
+    intent = "RELATED",
+    withBestSellers = true,
+  }: { intent?: ProductRecommendationIntent; withBestSellers?: boolean } = {},
 ) {
   const products = await storefront.query<ProductRecommendationsQuery>(
     RECOMMENDED_PRODUCTS_QUERY,
     {
-      variables: { productId, count: 12 },
+      variables: { productId, count: 12, intent, withBestSellers },
     },
   );
 
   invariant(products, "No data returned from Shopify API");
 
   const mergedProducts = (products.recommended ?? [])
-    .concat(products.additional.nodes)
+    .concat(products.additional?.nodes ?? [])
     .filter((prod, idx, arr) => {
-      return arr.findIndex(({ id }) => id === prod.id) === idx;
+      return (
+        prod.id !== productId &&
+        arr.findIndex(({ id }) => id === prod.id) === idx
+      );
     });
 
-  const originalProduct = mergedProducts.findIndex(
-    (item) => item.id === productId,
-  );
-
-  mergedProducts.splice(originalProduct, 1);
-
   return { nodes: mergedProducts };
 }
 
@@ -51,13 +305,16 @@ const RECOMMENDED_PRODUCTS_QUERY = `#graphql
   query productRecommendations(
     $productId: ID!
     $count: Int
+    $intent: ProductRecommendationIntent = RELATED
+    $withBestSellers: Boolean = true
     $country: CountryCode
     $language: LanguageCode
   ) @inContext(country: $country, language: $language) {
-    recommended: productRecommendations(productId: $productId) {
+    recommended: productRecommendations(productId: $productId, intent: $intent) {
       ...ProductCard
     }
-    additional: products(first: $count, sortKey: BEST_SELLING) {
+    additional: products(first: $count, sortKey: BEST_SELLING)
+      @include(if: $withBestSellers) {
       nodes {
         ...ProductCard
       }
@@ -0,0 +1,235 @@
+import type { Storefront } from "@shopify/hydrogen";
+import type {
+  SearchSettingsFragment,
+  SearchSettingsQuery,
+} from "storefront-api.generated";
+import type { I18nLocale } from "~/types/locale";
+import type { NormalizedPredictiveSearchResults } from "~/types/predictive-search";
+
+export interface SearchRule {
+  terms: string[];
+  target: string;
+}
+
+export interface SearchSettings {
+  popularSearches: string[];
+  synonyms: SearchRule[];
+  redirects: SearchRule[];
+}
+
+export const NO_PREDICTIVE_SEARCH_RESULTS: NormalizedPredictiveSearchResults = [
+  { type: "queries", items: [] },
+  { type: "products", items: [] },
+  { type: "collections", items: [] },
+  { type: "pages", items: [] },
+  { type: "articles", items: [] },
+];
+
+// Shown until popular searches are entered in the search settings
+const DEFAULT_POPULAR_SEARCHES = ["French Linen", "Shirt", "Cotton"];
+
+const DEFAULT_SEARCH_SETTINGS: SearchSettings = {
+  popularSearches: DEFAULT_POPULAR_SEARCHES,
+  synonyms: [],
+  redirects: [],
+};
+
+export function normalizeSearchTerm(term: string) {
+  return term.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * Parse a multi-line rules field, one rule per line as `terms => target`:
+ * `tee, tees => t-shirt`
+ */
+export function parseSearchRules(value?: string | null): SearchRule[] {
+  if (!value) return [];
+  return value.split("\n").reduce<SearchRule[]>((rules, line) => {
+    const [terms, target] = line.split("=>").map((part) => part.trim());
+    if (terms && target) {
+      rules.push({
+        terms: terms.split(",").map(normalizeSearchTerm).filter(Boolean),
+        target,
+      });
+    }
+    return rules;
+  }, []);
+}
+
+/**
+ * Parse the search settings metaobject, `popular_searches` is a list of
+ * single line texts while `synonyms` and `redirects` are multi-line rules
+ */
+export function parseSearchSettings(
+  metaobject?: SearchSettingsFragment | null,
+): SearchSettings {
+  if (!metaobject) return DEFAULT_SEARCH_SETTINGS;
+  let popularSearches: string[] = [];
+  try {
+    const parsed = JSON.parse(metaobject.popularSearches?.value || "[]");
+    if (Array.isArray(parsed)) {
+      popularSearches = parsed.map(String).filter(Boolean);
+    }
+  } catch {}
+  return {
+    popularSearches: popularSearches.length
+      ? popularSearches
+      : DEFAULT_POPULAR_SEARCHES,
+    synonyms: parseSearchRules(metaobject.synonyms?.value),
+    redirects: parseSearchRules(metaobject.redirects?.value),
+  };
+}
+
+/**
+ * The url to redirect to when the whole search term matches a redirect rule
+ */
+export function getSearchRedirect(term: string, redirects: SearchRule[]) {
+  const normalized = normalizeSearchTerm(term);
+  return (
+    redirects.find(({ terms }) => terms.includes(normalized))?.target || null
+  );
+}
+
+/**
+ * Rewrite every word or phrase of the search term matching a synonym,
+ * `black tee` => `black t-shirt`. The term is read in a single pass, so a
+ * rewritten word is never rewritten again by another rule.
+ * Returns `null` when nothing was rewritten
+ */
+export function applySearchSynonyms(term: string, synonyms: SearchRule[]) {
+  const words = normalizeSearchTerm(term).split(" ").filter(Boolean);
+  // The longest phrases first, `tee shirt` before `tee`
+  const rules = synonyms
+    .flatMap(({ terms, target }) =>
+      terms.map((synonym) => ({ words: synonym.split(" "), target })),
+    )
+    .sort((a, b) => b.words.length - a.words.length);
+  const rewritten: string[] = [];
+  let idx = 0;
+  while (idx < words.length) {
+    const rule = rules.find((r) =>
+      r.words.every((word, offset) => words[idx + offset] === word),
+    );
+    rewritten.push(rule ? rule.target : words[idx]);
+    idx += rule ? rule.words.length : 1;
+  }
+  const result = rewritten.join(" ");
+  return result === words.join(" ") ? null : result;
+}
+
+/**
+ * Split a text into the parts matching the words of the search term and the
+ * others, `("Linen shirt", "shi")` => `Linen `, `shi` (match), `rt`
+ */
+export function getHighlightedParts(text: string, term: string) {
+  const words = normalizeSearchTerm(term)
+    .split(" ")
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length)
+    .map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  if (!words.length) {
+    return [{ text, match: false }];
+  }
+  return text
+    .split(new RegExp(`(${words.join("|")})`, "gi"))
+    .map((part, idx) => ({ text: part, match: idx % 2 === 1 }))
+    .filter((part) => part.text);
+}
+
+/**
+ * "Did you mean…" suggestions for a search without results, picked from the
+ * popular searches and synonym targets closest to the search term
+ */
+export function getSearchSuggestions(
+  term: string,
+  settings: SearchSettings,
+  limit = 3,
+) {
+  const normalized = normalizeSearchTerm(term);
+  const candidates = new Map<string, string>();
+  for (const candidate of [
+    ...settings.popularSearches,
+    ...settings.synonyms.map(({ target }) => target),
+  ]) {
+    const key = normalizeSearchTerm(candidate);
+    if (key && key !== normalized && !candidates.has(key)) {
+      candidates.set(key, candidate);
+    }
+  }
+  // Allow roughly one typo every 4 characters
+  const maxDistance = Math.max(1, Math.floor(normalized.length / 4));
+  return Array.from(candidates)
+    .map(([key, candidate]) => ({
+      candidate,
+      distance:
+        key.includes(normalized) || normalized.includes(key)
+          ? 0
+          : getEditDistance(key, normalized),
+    }))
+    .filter(({ distance }) => distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+}
+
+function getEditDistance(a: string, b: string) {
+  let previous = Array.from({ length: b.length + 1 }, (_, idx) => idx);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Search settings are stored in the first metaobject of their type.
+ * Never throws, the search works with the default settings if the query fails.
+ */
+export async function getSearchSettings(
+  storefront: Storefront<I18nLocale>,
+  type = "search_settings",
+) {
+  try {
+    const { metaobjects } = await storefront.query<SearchSettingsQuery>(
+      SEARCH_SETTINGS_QUERY,
+      { variables: { type }, cache: storefront.CacheLong() },
+    );
+    return parseSearchSettings(metaobjects.nodes[0]);
+  } catch (error) {
+    console.error(error);
+    return DEFAULT_SEARCH_SETTINGS;
+  }
+}
+
+const SEARCH_SETTINGS_QUERY = `#graphql
+  fragment SearchSettings on Metaobject {
+    id
+    popularSearches: field(key: "popular_searches") {
+      value
+    }
+    synonyms: field(key: "synonyms") {
+      value
+    }
+    redirects: field(key: "redirects") {
+      value
+    }
+  }
+  query searchSettings(
+    $type: String!
+    $country: CountryCode
+    $language: LanguageCode
+  ) @inContext(country: $country, language: $language) {
+    metaobjects(type: $type, first: 1) {
+      nodes {
+        ...SearchSettings
+      }
+    }
+  }
+` as const;
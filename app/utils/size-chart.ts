@@ -0,0 +1,98 @@
+import type { Storefront } from "@shopify/hydrogen";
+import type {
+  SizeChartFragment,
+  SizeChartQuery,
+} from "storefront-api.generated";
+import { SIZE_CHART_FRAGMENT } from "~/graphql/fragments";
+import type { I18nLocale } from "~/types/locale";
+
+export type SizeChartUnit = "cm" | "in";
+
+export interface SizeChart {
+  title: string;
+  description: string;
+  unit: SizeChartUnit;
+  headers: string[];
+  rows: string[][];
+}
+
+const CM_PER_INCH = 2.54;
+
+/**
+ * Parse a size chart metaobject. The `chart` field is a JSON list of rows,
+ * the first row being the headers:
+ * `[["Size", "Chest", "Waist"], ["S", "86-91", "71-76"], ["M", "96-101", "81-86"]]`
+ */
+export function parseSizeChart(
+  metaobject?: SizeChartFragment | null,
+): SizeChart | null {
+  if (!metaobject?.chart?.value) return null;
+  let chart: unknown;
+  try {
+    chart = JSON.parse(metaobject.chart.value);
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(chart)) return null;
+  const [headers, ...rows] = chart
+    .filter((row): row is unknown[] => Array.isArray(row))
+    .map((row) => row.map((cell) => String(cell ?? "")));
+  if (!headers?.length || !rows.length) return null;
+  return {
+    title: metaobject.title?.value || "Size guide",
+    description: metaobject.description?.value || "",
+    unit: metaobject.unit?.value === "in" ? "in" : "cm",
+    headers,
+    rows,
+  };
+}
+
+/**
+ * Convert all the measurements of a cell, `"86-91"` => `"33.9-35.8"`
+ */
+export function convertSizeChartValue(
+  value: string,
+  from: SizeChartUnit,
+  to: SizeChartUnit,
+) {
+  if (from === to) return value;
+  return value.replace(/\d+(?:\.\d+)?/g, (num) => {
+    const converted =
+      from === "cm" ? Number(num) / CM_PER_INCH : Number(num) * CM_PER_INCH;
+    return String(Math.round(converted * 10) / 10);
+  });
+}
+
+/**
+ * Size chart shared by a product type, its handle is the handleized type,
+ * e.g. the `t-shirts` size chart for the `T-Shirts` product type
+ */
+export async function getProductTypeSizeChart(
+  storefront: Storefront<I18nLocale>,
+  productType: string,
+  type = "size_chart",
+) {
+  const handle = productType
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  if (!handle) return null;
+  const { metaobject } = await storefront.query<SizeChartQuery>(
+    SIZE_CHART_QUERY,
+    { variables: { handle: { type, handle } } },
+  );
+  return metaobject;
+}
+
+const SIZE_CHART_QUERY = `#graphql
+  query sizeChart(
+    $handle: MetaobjectHandleInput!
+    $country: CountryCode
+    $language: LanguageCode
+  ) @inContext(country: $country, language: $language) {
+    metaobject(handle: $handle) {
+      ...SizeChart
+    }
+  }
+  ${SIZE_CHART_FRAGMENT}
+` as const;
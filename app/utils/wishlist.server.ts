@@ -0,0 +1,91 @@
+import type { AppLoadContext } from "react-router";
+import type {
+  ProductCardFragment,
+  WishlistProductsQuery,
+} from "storefront-api.generated";
+import { PRODUCT_CARD_FRAGMENT } from "~/graphql/fragments";
+import {
+  getCustomerList,
+  updateCustomerList,
+} from "~/utils/customer-lists.server";
+
+export type WishlistItem = {
+  productId: string;
+  addedAt: string;
+};
+
+/**
+ * List the wishlist items, most recently added first
+ */
+export function getWishlist(context: AppLoadContext) {
+  return getCustomerList<WishlistItem>(context, "wishlist");
+}
+
+/**
+ * Get the ids of the wishlisted products, never throws so it can be deferred
+ * from the root loader.
+ */
+export async function getWishlistProductIds(context: AppLoadContext) {
+  try {
+    const items = await getWishlist(context);
+    return items.map(({ productId }) => productId);
+  } catch (error) {
+    console.error(error);
+    return [];
+  }
+}
+
+/**
+ * Get the wishlisted products, in the wishlist order
+ */
+export async function getWishlistProducts(context: AppLoadContext) {
+  const { storefront } = context;
+  const items = await getWishlist(context);
+  if (!items.length) {
+    return [];
+  }
+
+  const { nodes } = await storefront.query<WishlistProductsQuery>(
+    WISHLIST_PRODUCTS_QUERY,
+    {
+      variables: {
+        ids: items.map(({ productId }) => productId),
+        country: storefront.i18n.country,
+        language: storefront.i18n.language,
+      },
+    },
+  );
+
+  // Products deleted or unpublished since they were added are skipped
+  return nodes.filter((node): node is ProductCardFragment =>
+    Boolean(node && "handle" in node),
+  );
+}
+
+export function addToWishlist(context: AppLoadContext, productId: string) {
+  return updateCustomerList<WishlistItem>(context, "wishlist", (items) => [
+    { productId, addedAt: new Date().toISOString() },
+    ...items.filter((item) => item.productId !== productId),
+  ]);
+}
+
+export function removeFromWishlist(context: AppLoadContext, productId: string) {
+  return updateCustomerList<WishlistItem>(context, "wishlist", (items) =>
+    items.filter((item) => item.productId !== productId),
+  );
+}
+
+const WISHLIST_PRODUCTS_QUERY = `#graphql
+  query WishlistProducts(
+    $ids: [ID!]!
+    $country: CountryCode
+    $language: LanguageCode
+  ) @inContext(country: $country, language: $language) {
+    nodes(ids: $ids) {
+      ... on Product {
+        ...ProductCard
+      }
+    }
+  }
+  ${PRODUCT_CARD_FRAGMENT}
+` as const;
@@ -9,6 +9,7 @@ import * as SubHeading from "~/components/subheading";
 import * as AllProducts from "~/sections/all-products";
 import * as BlogPost from "~/sections/blog-post";
 import * as Blogs from "~/sections/blogs";
+import * as BundleBuilder from "~/sections/bundle-builder";
 import * as CollectionFilters from "~/sections/collection-filters";
 import * as CollectionList from "~/sections/collection-list";
 import * as CollectionListItems from "~/sections/collection-list/collections-items";
@@ -43,6 +44,7 @@ import * as ProductInformation from "~/sections/product-information";
 import * as PromotionGrid from "~/sections/promotion-grid";
 import * as PromotionGridButtons from "~/sections/promotion-grid/buttons";
 import * as PromotionGridItem from "~/sections/promotion-grid/item";
+import * as RecentlyViewed from "~/sections/recently-viewed";
 import * as RelatedArticles from "~/sections/related-articles";
 import * as RelatedProducts from "~/sections/related-products";
 import * as SingleProduct from "~/sections/single-product";
@@ -93,6 +95,7 @@ export const components: HydrogenComponent[] = [
   AllProducts,
   FeaturedProducts,
   FeaturedProductItems,
+  BundleBuilder,
   Testimonial,
   TestimonialItems,
   TestimonialItem,
@@ -101,6 +104,7 @@ export const components: HydrogenComponent[] = [
   ImageGalleryItem,
   ProductInformation,
   RelatedProducts,
+  RecentlyViewed,
   RelatedArticles,
   CollectionFilters,
   CollectionList,
@@ -17,11 +17,15 @@ export function getWeaverseCsp(request: Request, context: AppLoadContext) {
       "data:",
       "*.youtube.com",
       "*.youtu.be",
+      "www.youtube-nocookie.com",
+      "player.vimeo.com",
       "*.google.com",
       "*.google-analytics.com",
       "*.googletagmanager.com",
       "cdn.alireviews.io",
       "cdn.jsdelivr.net",
+      // `model-viewer` script of the 3D models
+      "unpkg.com",
       "*.alicdn.com",
       ...weaverseHosts,
     ],
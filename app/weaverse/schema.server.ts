@@ -560,6 +560,15 @@ export const themeSchema: HydrogenThemeSchema = {
           defaultValue: "Sold out",
           placeholder: "Sold out",
         },
+        {
+          type: "text",
+          label: "Pre-order text",
+          name: "preorderBadgeText",
+          defaultValue: "Pre-order",
+          placeholder: "Pre-order",
+          helpText:
+            "Shown instead of the sold out badge for variants that continue selling when out of stock.",
+        },
         {
           type: "textarea",
           label: "Sale badge text",
@@ -787,6 +796,100 @@ export const themeSchema: HydrogenThemeSchema = {
         },
       ],
     },
+    {
+      group: "Free shipping",
+      inputs: [
+        {
+          type: "switch",
+          label: "Show free shipping progress bar",
+          name: "freeShippingEnabled",
+          defaultValue: true,
+        },
+        {
+          type: "textarea",
+          label: "Thresholds by market",
+          name: "freeShippingThresholds",
+          defaultValue: "",
+          placeholder: "US: 100\nGB: 80",
+          helpText: [
+            "<p class='mb-1'>- One market per line as <strong>COUNTRY_CODE: amount</strong>, in the market currency.</p>",
+            "<p>- Markets not listed here use the default thresholds of the store locales.</p>",
+          ].join(""),
+          condition: (data) => data.freeShippingEnabled === true,
+        },
+        {
+          type: "text",
+          label: "Progress text",
+          name: "freeShippingProgressText",
+          defaultValue: "You're [amount] away from free shipping!",
+          placeholder: "You're [amount] away from free shipping!",
+          helpText:
+            "Use <strong>[amount]</strong> to display the remaining amount.",
+          condition: (data) => data.freeShippingEnabled === true,
+        },
+        {
+          type: "text",
+          label: "Success text",
+          name: "freeShippingSuccessText",
+          defaultValue: "Congratulations! You've got free shipping.",
+          placeholder: "Congratulations! You've got free shipping.",
+          condition: (data) => data.freeShippingEnabled === true,
+        },
+      ],
+    },
+    {
+      group: "Predictive search",
+      inputs: [
+        {
+          type: "heading",
+          label: "Result types",
+        },
+        {
+          type: "switch",
+          label: "Show suggestions",
+          name: "predictiveSearchShowQueries",
+          defaultValue: true,
+        },
+        {
+          type: "switch",
+          label: "Show products",
+          name: "predictiveSearchShowProducts",
+          defaultValue: true,
+        },
+        {
+          type: "switch",
+          label: "Show collections",
+          name: "predictiveSearchShowCollections",
+          defaultValue: false,
+        },
+        {
+          type: "switch",
+          label: "Show articles",
+          name: "predictiveSearchShowArticles",
+          defaultValue: true,
+        },
+        {
+          type: "switch",
+          label: "Show pages",
+          name: "predictiveSearchShowPages",
+          defaultValue: false,
+        },
+      ],
+    },
+    {
+      group: "Compare products",
+      inputs: [
+        {
+          type: "text",
+          label: "Product metafields",
+          name: "compareMetafields",
+          defaultValue: "",
+          placeholder: "custom.material, custom.care_guide",
+          helpText:
+            "Metafields shown on the compare page, as <strong>namespace.key</strong> separated by commas.",
+        },
+      ],
+    },
     {
       group: "Animations and effects",
       inputs: [
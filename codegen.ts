@@ -12,12 +12,16 @@ export default {
         "./*.{ts,tsx,js,jsx}",
         "./app/**/*.{ts,tsx,js,jsx}",
         "!./app/routes/*.account*.{ts,tsx,js,jsx}",
+        "!./app/graphql/customer-account.ts",
       ],
     },
     "customer-account-api.generated.d.ts": {
       preset,
       schema: [getSchema("customer-account")],
-      documents: ["./app/routes/*.account*.{ts,tsx,js,jsx}"],
+      documents: [
+        "./app/routes/*.account*.{ts,tsx,js,jsx}",
+        "./app/graphql/customer-account.ts",
+      ],
     },
   },
 } as CodegenConfig;
@@ -21,7 +21,10 @@ declare global {
     METAOBJECT_COLORS_TYPE: string;
     METAOBJECT_COLOR_NAME_KEY: string;
     METAOBJECT_COLOR_VALUE_KEY: string;
+    METAOBJECT_SIZE_CHART_TYPE?: string;
+    METAOBJECT_SEARCH_SETTINGS_TYPE?: string;
     KLAVIYO_PRIVATE_API_TOKEN: string;
+    BACK_IN_STOCK_PROVIDER?: "klaviyo" | "local";
     PUBLIC_SHOPIFY_INBOX_SHOP_ID: string;
     WEAVERSE_HOST?: string;
   }
@@ -96,7 +96,10 @@ export async function createAppLoadContext(
     waitUntil,
     session,
     i18n: getLocaleFromRequest(request),
-    cart: { queryFragment: CART_QUERY_FRAGMENT },
+    cart: {
+      queryFragment: CART_QUERY_FRAGMENT,
+      mutateFragment: CART_MUTATE_FRAGMENT,
+    },
   });
 
   return {
@@ -212,13 +215,22 @@ const CART_QUERY_FRAGMENT = `#graphql
     }
     sellingPlanAllocation {
       sellingPlan {
+        id
         name
+        recurringDeliveries
+      }
+      priceAdjustments {
+        perDeliveryPrice {
+          ...Money
+        }
       }
     }
     merchandise {
       ... on ProductVariant {
         id
         availableForSale
+        quantityAvailable
+        currentlyNotInStock
         compareAtPrice {
           ...Money
         }
@@ -295,3 +307,19 @@ const CART_QUERY_FRAGMENT = `#graphql
     }
   }
 ` as const;
+
+/**
+ * Returned by every cart mutation, keep it small.
+ * `discountCodes` lets the cart action report the status of each code.
+ */
+const CART_MUTATE_FRAGMENT = `#graphql
+  fragment CartApiMutation on Cart {
+    id
+    totalQuantity
+    checkoutUrl
+    discountCodes {
+      code
+      applicable
+    }
+  }
+` as const;
@@ -0,0 +1,118 @@
+import { expect, test } from "@playwright/test";
+import {
+  DISCOUNT_CODE_NOT_APPLICABLE,
+  getDiscountCodeAttributes,
+  getDiscountCodeResults,
+  getStaleDiscountCodes,
+  normalizeDiscountCodes,
+} from "~/utils/cart";
+
+test.describe("Discount codes", () => {
+  test("normalizes the requested codes", () => {
+    expect(
+      normalizeDiscountCodes([" SUMMER ", "", "summer", "WELCOME10", null]),
+    ).toEqual(["SUMMER", "WELCOME10"]);
+  });
+
+  test("reports the status of every requested code", () => {
+    const results = getDiscountCodeResults(["SUMMER", "EXPIRED", "WRONG"], {
+      discountCodes: [
+        { code: "SUMMER", applicable: true },
+        { code: "EXPIRED", applicable: false },
+        { code: "WRONG", applicable: false },
+      ],
+      userErrors: [
+        { field: ["discountCodes", "1"], message: "Discount has expired" },
+      ],
+    });
+
+    expect(results).toEqual([
+      { code: "SUMMER", applicable: true },
+      { code: "EXPIRED", applicable: false, reason: "Discount has expired" },
+      {
+        code: "WRONG",
+        applicable: false,
+        reason: DISCOUNT_CODE_NOT_APPLICABLE,
+      },
+    ]);
+  });
+
+  test("matches user errors mentioning a code", () => {
+    const [result] = getDiscountCodeResults(["vip"], {
+      discountCodes: [],
+      userErrors: [{ message: "Code VIP is only for members" }],
+    });
+
+    expect(result).toEqual({
+      code: "vip",
+      applicable: false,
+      reason: "Code VIP is only for members",
+    });
+  });
+
+  test("drops the line codes no line qualifies for anymore", () => {
+    const lines = [
+      {
+        id: "1",
+        quantity: 3,
+        attributes: getDiscountCodeAttributes("BUY3", 3),
+      },
+      { id: "2", quantity: 1, attributes: getDiscountCodeAttributes("BUNDLE") },
+      { id: "3", quantity: 1, attributes: getDiscountCodeAttributes("BUNDLE") },
+      { id: "4", quantity: 1, attributes: [] },
+    ];
+
+    expect(getStaleDiscountCodes(lines, [{ id: "4", quantity: 0 }])).toEqual(
+      [],
+    );
+    expect(getStaleDiscountCodes(lines, [{ id: "1", quantity: 2 }])).toEqual([
+      "buy3",
+    ]);
+    expect(getStaleDiscountCodes(lines, [{ id: "2", quantity: 0 }])).toEqual(
+      [],
+    );
+    expect(
+      getStaleDiscountCodes(lines, [
+        { id: "2", quantity: 0 },
+        { id: "3", quantity: 0 },
+      ]),
+    ).toEqual(["bundle"]);
+  });
+
+  test("Apply and remove codes from the cart", async ({ page }) => {
+    await page.goto(`/products`);
+    await page.locator(`[data-test=product-grid] a  >> nth=0`).click();
+    await page.locator(`[data-test=add-to-cart]`).click();
+    await page.goto(`/cart`);
+
+    const input = page.getByPlaceholder("Discount code");
+    await input.fill("NOT-A-REAL-CODE");
+    await page.getByRole("button", { name: "Apply" }).click();
+
+    const code = page
+      .locator("[data-test=discount-code]")
+      .filter({ hasText: "NOT-A-REAL-CODE" });
+    await expect(code, "should list the inapplicable code").toBeVisible();
+    await expect(
+      code.locator("[data-test=discount-code-status]"),
+      "should flag the code as not applicable",
+    ).toHaveText("Not applicable");
+    await expect(
+      code.locator("[data-test=discount-code-reason]"),
+      "should explain why the code doesn't apply",
+    ).not.toBeEmpty();
+
+    await input.fill("ANOTHER-CODE");
+    await page.getByRole("button", { name: "Apply" }).click();
+    await expect(
+      page.locator("[data-test=discount-code]"),
+      "should stack both codes",
+    ).toHaveCount(2);
+
+    await page
+      .getByRole("button", { name: "Remove discount code NOT-A-REAL-CODE" })
+      .click();
+    await expect(code, "should remove only that code").toHaveCount(0);
+    await expect(page.locator("[data-test=discount-code]")).toHaveCount(1);
+  });
+});
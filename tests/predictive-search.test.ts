@@ -0,0 +1,93 @@
+import { expect, type Page, test } from "@playwright/test";
+
+async function openSearch(page: Page) {
+  await page.getByRole("button", { name: "Open search" }).click();
+  return page.getByRole("combobox", { name: "Search" });
+}
+
+test.describe("Predictive search", () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto(`/`);
+    await page.evaluate(() => localStorage.removeItem("recent-searches"));
+  });
+
+  test("Arrow keys move the highlighted result", async ({ page }) => {
+    const input = await openSearch(page);
+    await input.fill("shirt");
+
+    const listbox = page.getByRole("listbox", { name: "Search results" });
+    await expect(listbox).toBeVisible();
+    await expect(input).toHaveAttribute("aria-expanded", "true");
+    const options = listbox.getByRole("option");
+
+    await input.press("ArrowDown");
+    const firstId = await options.first().getAttribute("id");
+    await expect(input, "should highlight the first result").toHaveAttribute(
+      "aria-activedescendant",
+      firstId || "",
+    );
+    await expect(options.first()).toHaveAttribute("aria-selected", "true");
+    await expect(input, "should keep the focus in the input").toBeFocused();
+
+    await input.press("ArrowDown");
+    await expect(options.nth(1)).toHaveAttribute("aria-selected", "true");
+    await expect(options.first()).toHaveAttribute("aria-selected", "false");
+
+    await input.press("ArrowUp");
+    await input.press("ArrowUp");
+    await expect(
+      options.last(),
+      "should wrap around to the last result",
+    ).toHaveAttribute("aria-selected", "true");
+    await expect(options.last()).toContainText("View all results");
+  });
+
+  test("Enter opens the highlighted result", async ({ page }) => {
+    const input = await openSearch(page);
+    await input.fill("shirt");
+
+    const options = page
+      .getByRole("listbox", { name: "Search results" })
+      .getByRole("option");
+    await expect(options.first()).toBeVisible();
+    const hrefs = await options.evaluateAll((nodes) =>
+      nodes.map((node) => (node as HTMLElement).dataset.href || ""),
+    );
+    const productIndex = hrefs.findIndex((href) => href.includes("/products/"));
+    expect(productIndex, "should find a product result").toBeGreaterThan(-1);
+
+    for (let i = 0; i <= productIndex; i++) {
+      await input.press("ArrowDown");
+    }
+    await input.press("Enter");
+
+    await expect(page, "should navigate to the product").toHaveURL(
+      /\/products\//,
+    );
+  });
+
+  test("Enter without a highlighted result searches and is remembered", async ({
+    page,
+  }) => {
+    let input = await openSearch(page);
+    await input.fill("shirt");
+    await input.press("Enter");
+
+    await expect(page, "should navigate to the search page").toHaveURL(
+      /\/search\?q=shirt/,
+    );
+
+    input = await openSearch(page);
+    const recent = page.getByRole("listbox", { name: "Recent searches" });
+    await expect(recent.getByRole("option")).toHaveText(["shirt"]);
+
+    await input.press("ArrowDown");
+    await expect(recent.getByRole("option").first()).toHaveAttribute(
+      "aria-selected",
+      "true",
+    );
+
+    await page.getByRole("button", { name: "Clear", exact: true }).click();
+    await expect(recent).toBeHidden();
+  });
+});
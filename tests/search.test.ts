@@ -0,0 +1,93 @@
+import { expect, test } from "@playwright/test";
+import {
+  applySearchSynonyms,
+  getHighlightedParts,
+  getSearchRedirect,
+  getSearchSuggestions,
+  parseSearchRules,
+  parseSearchSettings,
+  type SearchSettings,
+} from "~/utils/search";
+
+const settings: SearchSettings = {
+  popularSearches: ["French Linen", "Shirt", "Cotton"],
+  synonyms: parseSearchRules("tee, tees => t-shirt\ntrousers => pants"),
+  redirects: parseSearchRules(
+    "returns, refund => /policies/refund-policy\ninvalid line",
+  ),
+};
+
+test.describe("Search settings", () => {
+  test("parses the rules and skips invalid lines", () => {
+    expect(settings.redirects).toEqual([
+      { terms: ["returns", "refund"], target: "/policies/refund-policy" },
+    ]);
+  });
+
+  test("redirects whole search terms only", () => {
+    expect(getSearchRedirect(" Returns ", settings.redirects)).toBe(
+      "/policies/refund-policy",
+    );
+    expect(getSearchRedirect("returns policy", settings.redirects)).toBeNull();
+  });
+
+  test("rewrites synonyms in the search term", () => {
+    expect(applySearchSynonyms("Black Tee", settings.synonyms)).toBe(
+      "black t-shirt",
+    );
+    expect(applySearchSynonyms("linen trousers", settings.synonyms)).toBe(
+      "linen pants",
+    );
+    expect(applySearchSynonyms("teeth", settings.synonyms)).toBeNull();
+  });
+
+  test("rewrites repeated words in a single pass", () => {
+    expect(applySearchSynonyms("tee tee", settings.synonyms)).toBe(
+      "t-shirt t-shirt",
+    );
+    const chained = parseSearchRules("tee => shirt\nshirt => blouse");
+    expect(applySearchSynonyms("tee", chained)).toBe("shirt");
+    expect(
+      applySearchSynonyms(
+        "tee shirt",
+        parseSearchRules("tee shirt => t-shirt"),
+      ),
+    ).toBe("t-shirt");
+  });
+
+  test("falls back to the default popular searches", () => {
+    expect(parseSearchSettings(null).popularSearches).toEqual([
+      "French Linen",
+      "Shirt",
+      "Cotton",
+    ]);
+  });
+
+  test("suggests close popular searches", () => {
+    expect(getSearchSuggestions("coton", settings)).toEqual(["Cotton"]);
+    expect(getSearchSuggestions("french lnen", settings)).toEqual([
+      "French Linen",
+    ]);
+    expect(getSearchSuggestions("xyz", settings)).toEqual([]);
+  });
+});
+
+test.describe("Search highlighting", () => {
+  test("splits the text on the search term words", () => {
+    expect(getHighlightedParts("French Linen Shirt", "shi lin")).toEqual([
+      { text: "French ", match: false },
+      { text: "Lin", match: true },
+      { text: "en ", match: false },
+      { text: "Shi", match: true },
+      { text: "rt", match: false },
+    ]);
+    expect(getHighlightedParts("Cotton (S)", "(s")).toEqual([
+      { text: "Cotton ", match: false },
+      { text: "(S", match: true },
+      { text: ")", match: false },
+    ]);
+    expect(getHighlightedParts("Cotton", " ")).toEqual([
+      { text: "Cotton", match: false },
+    ]);
+  });
+});
@@ -0,0 +1,60 @@
+import { expect, test } from "@playwright/test";
+import { getCartPermalink, parseCartPermalink } from "~/utils/cart";
+
+test.describe("Share cart", () => {
+  test("round-trips lines, attributes and discount codes", () => {
+    const link = getCartPermalink({
+      lines: [
+        {
+          merchandiseId: "gid://shopify/ProductVariant/41007289663544",
+          quantity: 1,
+          attributes: [{ key: "Engraving", value: "Happy birthday" }],
+        },
+        {
+          merchandiseId: "gid://shopify/ProductVariant/41007289696312",
+          quantity: 2,
+        },
+      ],
+      discountCodes: ["SUMMER", "WELCOME10"],
+      pathPrefix: "/en-ca",
+    });
+    const url = new URL(link, "https://example.com");
+
+    expect(url.pathname).toBe("/en-ca/cart/41007289663544:1,41007289696312:2");
+
+    const parsed = parseCartPermalink(
+      url.pathname.split("/").pop(),
+      url.searchParams,
+    );
+    expect(parsed).toEqual({
+      lines: [
+        {
+          merchandiseId: "gid://shopify/ProductVariant/41007289663544",
+          quantity: 1,
+          attributes: [{ key: "Engraving", value: "Happy birthday" }],
+        },
+        {
+          merchandiseId: "gid://shopify/ProductVariant/41007289696312",
+          quantity: 2,
+        },
+      ],
+      discountCodes: ["SUMMER", "WELCOME10"],
+      restore: true,
+      errors: [],
+    });
+  });
+
+  test("rejects zero and invalid quantities", () => {
+    const { lines, errors } = parseCartPermalink(
+      "41007289663544:0,41007289696312:two,41007289696313:1.5,41007289696314:3",
+      new URLSearchParams(),
+    );
+
+    expect(lines).toHaveLength(1);
+    expect(errors).toEqual([
+      '"41007289663544:0": the quantity must be greater than zero.',
+      '"41007289696312:two": the quantity must be a whole number.',
+      '"41007289696313:1.5": the quantity must be a whole number.',
+    ]);
+  });
+});